@@ -0,0 +1,226 @@
+import { ScrollDirection, VirtualScrollView, VScrollViewEvent } from './VScrollView';
+import { clamp } from './VScrollViewCore';
+const { ccclass, property, menu } = cc._decorator;
+
+export type GetBubbleTextFn = (index: number, section: number) => string;
+
+/**
+ * 配合 VirtualScrollView 使用的滚动条，挂在滚动条轨道节点上
+ * 根据滚动范围和视口尺寸计算滑块大小与位置，拖动滑块可快速定位
+ */
+@ccclass('VScrollBar')
+@menu('2D/VScrollBar(虚拟列表滚动条)')
+export class VScrollBar extends cc.Component {
+  @property({ type: VirtualScrollView, displayName: '绑定列表', tooltip: '要控制的 VirtualScrollView' })
+  public scrollView: VirtualScrollView | null = null;
+
+  @property({ type: cc.Node, displayName: '滑块', tooltip: '滑块节点（轨道节点的子节点）' })
+  public thumb: cc.Node | null = null;
+
+  @property({ displayName: '最小滑块尺寸', tooltip: '列表很长时滑块的最小长度（像素）', range: [10, 500, 1] })
+  public minThumbSize: number = 40;
+
+  @property({ displayName: '可拖动', tooltip: '是否允许拖动滑块快速滚动' })
+  public draggable: boolean = true;
+
+  @property({ displayName: '自动隐藏', tooltip: '停止滚动后自动淡出' })
+  public autoHide: boolean = true;
+
+  @property({
+    displayName: '===隐藏延迟',
+    tooltip: '停止滚动多久后开始淡出（秒）',
+    visible(this: VScrollBar) {
+      return this.autoHide;
+    },
+  })
+  public hideDelay: number = 0.8;
+
+  @property({
+    displayName: '===淡出时长',
+    tooltip: '淡出动画时长（秒）',
+    visible(this: VScrollBar) {
+      return this.autoHide;
+    },
+  })
+  public fadeDuration: number = 0.3;
+
+  @property({ type: cc.Node, displayName: '气泡节点', tooltip: '可选：拖动滑块时显示在滑块旁的气泡' })
+  public bubble: cc.Node | null = null;
+
+  @property({ type: cc.Label, displayName: '气泡文本', tooltip: '可选：气泡上显示当前位置的 Label' })
+  public bubbleLabel: cc.Label | null = null;
+
+  /** 气泡文本，默认显示滑块处的序号（分组时显示分组序号） */
+  public getBubbleTextFn: GetBubbleTextFn | null = null;
+
+  private _dragging = false;
+  private _dragOffset = 0; // 按下位置相对滑块中心的偏移
+  private _fadeTween: cc.Tween | null = null;
+
+  onEnable() {
+    if (this.scrollView) {
+      this.scrollView.on(VScrollViewEvent.SCROLLING, this._onScrolling, this);
+      this.scrollView.on(VScrollViewEvent.SCROLL_ENDED, this._onScrollEnded, this);
+    }
+    if (this.thumb) {
+      this.thumb.on(cc.Node.EventType.TOUCH_START, this._onThumbDown, this);
+      this.thumb.on(cc.Node.EventType.TOUCH_MOVE, this._onThumbMove, this);
+      this.thumb.on(cc.Node.EventType.TOUCH_END, this._onThumbUp, this);
+      this.thumb.on(cc.Node.EventType.TOUCH_CANCEL, this._onThumbUp, this);
+    }
+    if (this.bubble) this.bubble.active = false;
+    if (this.autoHide) this.node.opacity = 0;
+  }
+
+  onDisable() {
+    if (this.scrollView) this.scrollView.targetOff(this);
+    if (this.thumb) this.thumb.targetOff(this);
+    this._stopFade();
+    this.unschedule(this._fadeOut);
+    this._dragging = false;
+  }
+
+  update() {
+    if (this.node.opacity > 0) this._refreshThumb();
+  }
+
+  private _isVertical(): boolean {
+    return this.scrollView!.direction === ScrollDirection.VERTICAL;
+  }
+
+  private _getTrackLength(): number {
+    const size = this.node.getContentSize();
+    return this._isVertical() ? size.height : size.width;
+  }
+
+  private _getThumbLength(): number {
+    const list = this.scrollView!;
+    const track = this._getTrackLength();
+    const content = Math.max(list.getContentMainSize(), list.getViewportSize(), 1);
+    return clamp(track * (list.getViewportSize() / content), Math.min(this.minThumbSize, track), track);
+  }
+
+  /** 根据列表滚动进度摆放滑块 */
+  private _refreshThumb() {
+    if (!this.scrollView || !this.thumb) return;
+    const list = this.scrollView;
+    const maxOffset = list.getMaxScrollOffset();
+    // 内容不足一屏或循环模式下没有意义
+    this.thumb.active = maxOffset > 0 && !list.loopMode;
+    if (!this.thumb.active) return;
+    const thumbLength = this._getThumbLength();
+    const progress = clamp(list.getScrollOffset() / maxOffset, 0, 1);
+    const center = this._progressToCenter(progress, thumbLength);
+    const anchor = this.thumb.getAnchorPoint();
+    const size = this.thumb.getContentSize();
+    if (this._isVertical()) {
+      this.thumb.setContentSize(size.width, thumbLength);
+      this.thumb.y = center + (anchor.y - 0.5) * thumbLength;
+    } else {
+      this.thumb.setContentSize(thumbLength, size.height);
+      this.thumb.x = center + (anchor.x - 0.5) * thumbLength;
+    }
+    if (this.bubble && this.bubble.active) {
+      if (this._isVertical()) this.bubble.y = center;
+      else this.bubble.x = center;
+    }
+  }
+
+  /** 滚动进度对应的滑块中心（轨道节点坐标） */
+  private _progressToCenter(progress: number, thumbLength: number): number {
+    const size = this.node.getContentSize();
+    const anchor = this.node.getAnchorPoint();
+    const free = this._getTrackLength() - thumbLength;
+    if (this._isVertical()) {
+      const top = size.height * (1 - anchor.y);
+      return top - thumbLength / 2 - progress * free;
+    }
+    const left = -size.width * anchor.x;
+    return left + thumbLength / 2 + progress * free;
+  }
+
+  /** 滑块中心（轨道节点坐标）对应的滚动进度 */
+  private _centerToProgress(center: number, thumbLength: number): number {
+    const free = this._getTrackLength() - thumbLength;
+    if (free <= 0) return 0;
+    const start = this._progressToCenter(0, thumbLength);
+    return clamp(this._isVertical() ? (start - center) / free : (center - start) / free, 0, 1);
+  }
+
+  private _getTouchMainPos(e: cc.Event.EventTouch): number {
+    const local = this.node.convertToNodeSpaceAR(e.getLocation());
+    return this._isVertical() ? local.y : local.x;
+  }
+
+  private _onScrolling() {
+    this._show();
+    this._refreshThumb();
+  }
+
+  private _onScrollEnded() {
+    if (this._dragging || !this.autoHide) return;
+    this.unschedule(this._fadeOut);
+    this.scheduleOnce(this._fadeOut, this.hideDelay);
+  }
+
+  private _onThumbDown(e: cc.Event.EventTouch) {
+    // 阻止冒泡，避免列表同时被拖动
+    e.stopPropagation();
+    if (!this.draggable || !this.scrollView || !this.thumb) return;
+    this._dragging = true;
+    this._show();
+    const thumbLength = this._getThumbLength();
+    const progress = clamp(this.scrollView.getScrollOffset() / Math.max(1, this.scrollView.getMaxScrollOffset()), 0, 1);
+    const center = this._progressToCenter(progress, thumbLength);
+    this._dragOffset = this._getTouchMainPos(e) - center;
+    if (this.bubble) this.bubble.active = true;
+    this._refreshBubble();
+  }
+
+  private _onThumbMove(e: cc.Event.EventTouch) {
+    e.stopPropagation();
+    if (!this._dragging || !this.scrollView) return;
+    const progress = this._centerToProgress(this._getTouchMainPos(e) - this._dragOffset, this._getThumbLength());
+    this.scrollView.flashToOffset(progress * this.scrollView.getMaxScrollOffset());
+    this._refreshThumb();
+    this._refreshBubble();
+  }
+
+  private _onThumbUp(e: cc.Event.EventTouch) {
+    e.stopPropagation();
+    if (!this._dragging) return;
+    this._dragging = false;
+    if (this.bubble) this.bubble.active = false;
+    this._onScrollEnded();
+  }
+
+  private _refreshBubble() {
+    if (!this.bubbleLabel || !this.scrollView) return;
+    const index = this.scrollView.getVisibleRange().start;
+    const section = this.scrollView.getSectionOfIndex(index);
+    if (this.getBubbleTextFn) this.bubbleLabel.string = this.getBubbleTextFn(index, section);
+    else this.bubbleLabel.string = `${section >= 0 ? section + 1 : index + 1}`;
+  }
+
+  private _show() {
+    this.unschedule(this._fadeOut);
+    this._stopFade();
+    this.node.opacity = 255;
+  }
+
+  private _fadeOut() {
+    this._stopFade();
+    this._fadeTween = cc
+      .tween(this.node)
+      .to(this.fadeDuration, { opacity: 0 })
+      .call(() => (this._fadeTween = null))
+      .start();
+  }
+
+  private _stopFade() {
+    if (this._fadeTween) {
+      this._fadeTween.stop();
+      this._fadeTween = null;
+    }
+  }
+}
@@ -1,6 +1,35 @@
-import { VScrollViewItem } from './VScrollViewItem';
+import { SwipeSide, VScrollViewItem } from './VScrollViewItem';
+import {
+  clamp,
+  DataDiffResult,
+  diffKeyedData,
+  insertFill,
+  DynamicLayout,
+  GridLayout,
+  LinearLayout,
+  moveIndex,
+  moveIndexSet,
+  PagedDataSource,
+  resolveStateAnchor,
+  spliceIndexSet,
+  VScrollLayout,
+  VScrollLayoutContext,
+  VScrollLayoutRect,
+  VScrollViewState,
+} from './VScrollViewCore';
+export {
+  DataDiffResult,
+  DynamicLayout,
+  FetchPageFn,
+  GridLayout,
+  LinearLayout,
+  PagedDataSource,
+  VScrollLayout,
+  VScrollLayoutContext,
+  VScrollLayoutRect,
+  VScrollViewState,
+} from './VScrollViewCore';
 const { ccclass, property, menu } = cc._decorator;
-const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
 const tween = cc.tween;
 
 class InternalNodePool {
@@ -26,6 +55,12 @@ class InternalNodePool {
     return cc.instantiate(this.prefabs[typeIndex]);
   }
 
+  /** 是否有可直接复用的节点（否则 get 需要实例化） */
+  hasFree(typeIndex: number): boolean {
+    const pool = this.pools.get(typeIndex);
+    return !!pool && pool.length > 0;
+  }
+
   put(node: cc.Node, typeIndex: number) {
     if (!node) return;
     const pool = this.pools.get(typeIndex);
@@ -56,16 +91,153 @@ class InternalNodePool {
   }
 }
 
-export type RenderItemFn = (node: cc.Node, index: number) => void;
+/** 支持多个订阅者的事件分发 */
+class ScrollEventEmitter {
+  private listeners: Map<string, { callback: Function; target: any; once: boolean }[]> = new Map();
+
+  on(type: string, callback: Function, target: any, once: boolean) {
+    let list = this.listeners.get(type);
+    if (!list) {
+      list = [];
+      this.listeners.set(type, list);
+    }
+    list.push({ callback, target, once });
+  }
+
+  off(type: string, callback?: Function, target?: any) {
+    const list = this.listeners.get(type);
+    if (!list) return;
+    for (let i = list.length - 1; i >= 0; i--) {
+      const l = list[i];
+      if ((!callback || l.callback === callback) && (target === undefined || l.target === target)) list.splice(i, 1);
+    }
+  }
+
+  targetOff(target: any) {
+    this.listeners.forEach((_, type) => this.off(type, undefined, target));
+  }
+
+  emit(type: string, args: any[]) {
+    const list = this.listeners.get(type);
+    if (!list || list.length === 0) return;
+    // 复制一份，允许回调中增删监听
+    for (const l of list.slice()) {
+      if (l.once) {
+        // 只移除这一条一次性监听，同一回调用 on 注册的监听保留
+        const i = list.indexOf(l);
+        if (i < 0) continue;
+        list.splice(i, 1);
+      }
+      l.callback.apply(l.target, args);
+    }
+  }
+
+  has(type: string): boolean {
+    const list = this.listeners.get(type);
+    return !!list && list.length > 0;
+  }
+
+  clear() {
+    this.listeners.clear();
+  }
+}
+
+/** Shift 键状态：所有列表共用一组全局按键监听，按启用中的列表数量引用计数 */
+class ShiftKeyTracker {
+  pressed = false;
+  private refs = 0;
+
+  retain() {
+    if (this.refs++ > 0) return;
+    cc.systemEvent.on(cc.SystemEvent.EventType.KEY_DOWN, this._onKeyDown, this);
+    cc.systemEvent.on(cc.SystemEvent.EventType.KEY_UP, this._onKeyUp, this);
+  }
+
+  release() {
+    if (this.refs === 0 || --this.refs > 0) return;
+    cc.systemEvent.off(cc.SystemEvent.EventType.KEY_DOWN, this._onKeyDown, this);
+    cc.systemEvent.off(cc.SystemEvent.EventType.KEY_UP, this._onKeyUp, this);
+    this.pressed = false;
+  }
+
+  private _onKeyDown(e: cc.Event.EventKeyboard) {
+    if (e.keyCode === cc.macro.KEY.shift) this.pressed = true;
+  }
+
+  private _onKeyUp(e: cc.Event.EventKeyboard) {
+    if (e.keyCode === cc.macro.KEY.shift) this.pressed = false;
+  }
+}
+
+const shiftKey = new ShiftKeyTracker();
+
+// 浏览器 wheelDelta 约定每格为 120，用于把普通滚轮的滚动量换算成格数
+const WHEEL_DELTA_PER_LINE = 120;
+// 原生平台每格的滚动量约为 1（cc.ScrollView 在 CC_JSB 下为此额外放大 7 倍），且不区分触控板，一律按整格处理
+const WHEEL_NATIVE_DELTA_PER_LINE = 1;
+// 单次滚动量小于该值视为触控板/高精度滚轮的像素滚动
+const WHEEL_PIXEL_DELTA_MAX = 50;
+// 两次滚轮事件间隔小于该值（毫秒）视为同一串连续滚动，沿用上一次判定的模式
+const WHEEL_STREAM_INTERVAL = 80;
+// 普通滚轮平滑滚动的逼近速率（1/秒），越大越快到达目标
+const WHEEL_APPROACH_RATE = 18;
+
+// isSelected 为该项当前是否被选中（selectionMode 为 NONE 时恒为 false）
+// 可返回 Promise 异步渲染，结果应用到节点前先检查 token.valid，节点被复用后令牌即失效
+export type RenderItemFn = (node: cc.Node, index: number, isSelected: boolean, token: RenderToken) => void | Promise<void>;
 export type ProvideNodeFn = (index: number) => cc.Node | Promise<cc.Node>;
 export type OnItemClickFn = (node: cc.Node, index: number) => void;
+// 子项手势回调（长按、双击、按下、松开）
+export type OnItemGestureFn = (node: cc.Node, index: number) => void;
 export type PlayItemAppearAnimationFn = (node: cc.Node, index: number) => void;
+// 超出每帧渲染预算时的占位显示，未设置时隐藏节点直到渲染完成
+export type RenderPlaceholderFn = (node: cc.Node, index: number) => void;
 export type GetItemHeightFn = (index: number) => number;
 export type GetItemTypeIndexFn = (index: number) => number;
+// 数据 key 提取（applyData 使用）
+export type DataKeyFn = (item: any, index: number) => string | number;
+// 判断同一 key 的数据是否未变更（默认按引用比较）
+export type IsSameDataFn = (oldItem: any, newItem: any) => boolean;
 // 刷新状态回调
 export type OnRefreshStateChangeFn = (state: RefreshState, offset: number) => void;
 // 加载更多状态回调
 export type OnLoadMoreStateChangeFn = (state: LoadMoreState, offset: number) => void;
+// 吸附翻页回调（按项吸附时为项索引，整页吸附时为页码）
+export type OnPageChangedFn = (page: number) => void;
+// 分组头渲染回调
+export type RenderSectionHeaderFn = (node: cc.Node, section: number) => void;
+// 聊天模式：未读新消息数量变化回调
+export type OnNewMessageCountChangeFn = (count: number) => void;
+// 焦点高亮回调：节点显示某条数据或焦点变化时调用，focused 表示该项是否为焦点项
+export type OnItemFocusChangeFn = (node: cc.Node, index: number, focused: boolean) => void;
+// 选中项变化回调，indices 为升序排列的全部选中索引
+export type OnSelectionChangedFn = (indices: number[]) => void;
+// 拖动排序完成回调，外部需将数据从 from 移动到 to
+export type OnItemMovedFn = (from: number, to: number) => void;
+// 滑动操作回调：side 为打开的操作区，关闭时为 SwipeSide.NONE
+export type OnItemSwipeFn = (node: cc.Node, index: number, side: SwipeSide) => void;
+// 预取回调：[start, end] 为按当前滚动速度预测即将进入视口的索引范围
+export type OnPrefetchRangeFn = (start: number, end: number) => void;
+// 子项位置变换回调：distance 为子项中心到视口中心的归一化距离，0 为正中，±1 为视口两端（负值朝列表起点）
+export type ItemTransformFn = (node: cc.Node, index: number, distance: number) => void;
+
+/**
+ * 渲染令牌：节点被回收、改为显示其他数据或再次渲染后失效；
+ * 数据未变只是索引移动（如 applyData 在前面插入数据）时仍然有效，index 为发起渲染时的索引
+ */
+export class RenderToken {
+  constructor(
+    public readonly node: cc.Node,
+    public readonly index: number,
+    private readonly _item: VScrollViewItem,
+    private readonly _generation: number
+  ) {}
+
+  /** 渲染结果是否仍可应用到节点上 */
+  get valid(): boolean {
+    return cc.isValid(this.node) && this._item.renderGeneration === this._generation;
+  }
+}
 
 export enum ScrollDirection {
   VERTICAL = 0,
@@ -73,6 +245,99 @@ export enum ScrollDirection {
 }
 const ScrollDirectionEnum = cc.Enum(ScrollDirection);
 
+/**
+ * 列表事件，通过 VirtualScrollView.on 订阅；
+ * 同时会以同名事件在组件所在节点上派发，编辑器中挂载的组件可直接 node.on 监听
+ */
+export enum VScrollViewEvent {
+  SCROLL_BEGAN = 'scroll-began', // 开始滚动
+  SCROLLING = 'scrolling', // 滚动中 (offset, velocity)
+  SCROLL_ENDED = 'scroll-ended', // 滚动完全停止
+  INERTIA_ENDED = 'inertia-ended', // 松手后的惯性/回弹结束
+  BOUNCE_TOP = 'bounce-top', // 从起始端越界回弹（横向为左侧）
+  BOUNCE_BOTTOM = 'bounce-bottom', // 从末尾端越界回弹（横向为右侧）
+  VISIBLE_RANGE_CHANGED = 'visible-range-changed', // 可见范围变化 (start, end)
+  ITEM_RECYCLED = 'item-recycled', // 节点不再显示某条数据 (node, index)
+  ITEM_SHOWN = 'item-shown', // 节点开始显示某条数据 (node, index)
+  ITEM_CLICK = 'item-click', // 点击子项 (node, index)
+  ITEM_LONG_PRESS = 'item-long-press', // 长按子项，按住期间触发 (node, index)
+  ITEM_DOUBLE_TAP = 'item-double-tap', // 双击子项 (node, index)
+  ITEM_PRESS = 'item-press', // 按下子项 (node, index)
+  ITEM_RELEASE = 'item-release', // 松开子项或按下被取消 (node, index)
+  REFRESH_STATE_CHANGED = 'refresh-state-changed', // (state, offset)
+  LOAD_MORE_STATE_CHANGED = 'load-more-state-changed', // (state, offset)
+  PAGE_CHANGED = 'page-changed', // (page)
+  NEW_MESSAGE_COUNT_CHANGED = 'new-message-count-changed', // (count)
+  FOCUS_CHANGED = 'focus-changed', // 键盘焦点变化 (index)，-1 表示无焦点
+  SELECTION_CHANGED = 'selection-changed', // 选中项变化 (indices)
+  ITEM_MOVED = 'item-moved', // 拖动排序完成 (from, to)
+  ITEM_SWIPE_STATE_CHANGED = 'item-swipe-state-changed', // 子项滑动打开/关闭 (node, index, side)
+  ITEM_FULL_SWIPE = 'item-full-swipe', // 子项滑过整行触发操作 (node, index, side)
+  PREFETCH_RANGE_CHANGED = 'prefetch-range-changed', // 即将进入视口的范围变化 (start, end)
+  SECTIONS_REMOVED = 'sections-removed', // removeItems 删空的分组已移除 (sections)，为移除前的分组索引（升序）
+}
+
+/** 各事件的回调参数 */
+export interface VScrollViewEventMap {
+  [VScrollViewEvent.SCROLL_BEGAN]: [];
+  [VScrollViewEvent.SCROLLING]: [number, number];
+  [VScrollViewEvent.SCROLL_ENDED]: [];
+  [VScrollViewEvent.INERTIA_ENDED]: [];
+  [VScrollViewEvent.BOUNCE_TOP]: [];
+  [VScrollViewEvent.BOUNCE_BOTTOM]: [];
+  [VScrollViewEvent.VISIBLE_RANGE_CHANGED]: [number, number];
+  [VScrollViewEvent.ITEM_RECYCLED]: [cc.Node, number];
+  [VScrollViewEvent.ITEM_SHOWN]: [cc.Node, number];
+  [VScrollViewEvent.ITEM_CLICK]: [cc.Node, number];
+  [VScrollViewEvent.ITEM_LONG_PRESS]: [cc.Node, number];
+  [VScrollViewEvent.ITEM_DOUBLE_TAP]: [cc.Node, number];
+  [VScrollViewEvent.ITEM_PRESS]: [cc.Node, number];
+  [VScrollViewEvent.ITEM_RELEASE]: [cc.Node, number];
+  [VScrollViewEvent.REFRESH_STATE_CHANGED]: [RefreshState, number];
+  [VScrollViewEvent.LOAD_MORE_STATE_CHANGED]: [LoadMoreState, number];
+  [VScrollViewEvent.PAGE_CHANGED]: [number];
+  [VScrollViewEvent.NEW_MESSAGE_COUNT_CHANGED]: [number];
+  [VScrollViewEvent.FOCUS_CHANGED]: [number];
+  [VScrollViewEvent.SELECTION_CHANGED]: [number[]];
+  [VScrollViewEvent.ITEM_MOVED]: [number, number];
+  [VScrollViewEvent.ITEM_SWIPE_STATE_CHANGED]: [cc.Node, number, SwipeSide];
+  [VScrollViewEvent.ITEM_FULL_SWIPE]: [cc.Node, number, SwipeSide];
+  [VScrollViewEvent.PREFETCH_RANGE_CHANGED]: [number, number];
+  [VScrollViewEvent.SECTIONS_REMOVED]: [number[]];
+}
+
+// 吸附模式
+export enum SnapMode {
+  NONE = 0, // 不吸附
+  ITEM = 1, // 吸附到子项
+  PAGE = 2, // 整页吸附
+}
+const SnapModeEnum = cc.Enum(SnapMode);
+
+export enum SnapAlign {
+  START = 0, // 子项起始边与视口起始边对齐
+  CENTER = 1, // 子项居中
+  END = 2, // 子项末尾边与视口末尾边对齐
+}
+const SnapAlignEnum = cc.Enum(SnapAlign);
+
+// 选择模式
+export enum SelectionMode {
+  NONE = 0, // 不可选择
+  SINGLE = 1, // 单选
+  MULTI = 2, // 多选，按住 Shift 点击可连续选择一段
+}
+const SelectionModeEnum = cc.Enum(SelectionMode);
+
+// 子项随视口位置变化的效果预设
+export enum ItemTransformPreset {
+  NONE = 0, // 无
+  COVER_FLOW = 1, // 封面流：远离中心的子项缩小并侧转
+  WHEEL = 2, // 滚轮选择器：子项按圆柱透视压扁，两端淡出
+  FADE_EDGES = 3, // 靠近视口两端时淡出
+}
+const ItemTransformPresetEnum = cc.Enum(ItemTransformPreset);
+
 // 添加刷新状态枚举
 export enum RefreshState {
   IDLE = 0, // 空闲状态
@@ -145,15 +410,33 @@ export class VirtualScrollView extends cc.Component {
   })
   public itemPrefabs: cc.Prefab[] = [];
 
+  @property({
+    displayName: '瀑布流',
+    tooltip: '不等大小模式：按行/列数分成等宽的列，每一项放入当前最短的一列（不支持分组、循环模式和拖动排序）',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.useDynamicSize;
+    },
+  })
+  public waterfall: boolean = false;
+
+  @property({
+    displayName: '不等高网格',
+    tooltip: '不等大小模式：按行/列数排成网格，每行高度（横向为每列宽度）取该行最大的子项；关闭时不等大小模式为单列，忽略行/列数',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.useDynamicSize && !this.waterfall;
+    },
+  })
+  public dynamicGrid: boolean = false;
+
   private itemMainSize: number = 100;
   private itemCrossSize: number = 100;
 
   @property({
     displayName: '行/列数',
-    tooltip: '纵向模式为列数，横向模式为行数',
+    tooltip: '纵向模式为列数，横向模式为行数；不等大小模式下需开启瀑布流或不等高网格',
     range: [1, 10, 1],
     visible(this: VirtualScrollView) {
-      return this.useVirtualList && !this.useDynamicSize;
+      return this.useVirtualList && (!this.useDynamicSize || this.waterfall || this.dynamicGrid);
     },
   })
   public gridCount: number = 1;
@@ -163,7 +446,7 @@ export class VirtualScrollView extends cc.Component {
     tooltip: '主方向垂直方向的间距（像素）',
     range: [0, 1000, 1],
     visible(this: VirtualScrollView) {
-      return this.useVirtualList && !this.useDynamicSize;
+      return this.useVirtualList && (!this.useDynamicSize || this.waterfall || this.dynamicGrid);
     },
   })
   public gridSpacing: number = 8;
@@ -198,6 +481,198 @@ export class VirtualScrollView extends cc.Component {
   })
   public buffer: number = 1;
 
+  @property({
+    displayName: '每帧渲染上限',
+    tooltip: '每帧最多渲染的子项数，超出的先显示占位，在后续帧按离视口中心的距离依次渲染，0 为不限制',
+    range: [0, 100, 1],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public renderBudgetCount: number = 0;
+
+  @property({
+    displayName: '每帧渲染耗时上限',
+    tooltip: '每帧渲染子项的耗时上限（毫秒），超出后其余子项顺延到后续帧，0 为不限制',
+    range: [0, 50, 1],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public renderBudgetMs: number = 0;
+
+  @property({
+    displayName: '预取距离(屏)',
+    tooltip: '按滚动速度预测即将进入视口的子项并通过 onPrefetchRangeFn 通知，速度越快预取越远，最远为该屏数',
+    range: [0, 10, 0.5],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public prefetchScreens: number = 1;
+
+  @property({
+    displayName: '聊天模式',
+    tooltip: '内容不足一屏时贴底显示；停留在底部时自动跟随最新消息，向上滚动后停止跟随并统计新消息数',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public chatMode: boolean = false;
+
+  @property({
+    type: cc.Prefab,
+    displayName: '分组头预制体',
+    tooltip: '分组模式（setSections）使用的分组头预制体；不填则使用子项预制体',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public sectionHeaderPrefab: cc.Prefab | null = null;
+
+  @property({
+    displayName: '===分组头类型索引',
+    tooltip: '未提供分组头预制体时，使用子项预制体数组中的第几个作为分组头',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.useDynamicSize && !this.sectionHeaderPrefab;
+    },
+  })
+  public sectionHeaderTypeIndex: number = 0;
+
+  @property({
+    displayName: '分组头吸顶',
+    tooltip: '当前分组的分组头固定在视口起始边，下一个分组头到达时将其推出',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public stickySectionHeader: boolean = true;
+
+  @property({
+    displayName: '循环模式',
+    tooltip: '首尾相接无限滚动，没有边界回弹（不支持下拉刷新、上拉加载、聊天模式和分组）',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public loopMode: boolean = false;
+
+  @property({
+    type: SelectionModeEnum,
+    displayName: '选择模式',
+    tooltip: '点击子项时自动维护选中状态，选中状态通过 renderItemFn 的 isSelected 参数传给子项',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public selectionMode: SelectionMode = SelectionMode.NONE;
+
+  @property({
+    displayName: '点击判定距离',
+    tooltip: '按下到松开移动小于该距离（像素）才算点击；移动超过该距离会取消长按',
+    range: [1, 100, 1],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public clickThreshold: number = 10;
+
+  @property({
+    displayName: '按下取消距离',
+    tooltip: '按下后移动超过该距离（像素）立即取消按下效果',
+    range: [1, 200, 1],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public moveThreshold: number = 40;
+
+  @property({
+    displayName: '长按时间',
+    tooltip: '按住多久触发长按（秒），用于 onItemLongPressFn 和拖动排序',
+    range: [0.1, 3, 0.05],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public longPressTime: number = 0.5;
+
+  @property({
+    displayName: '双击间隔',
+    tooltip: '两次点击间隔小于该值（秒）时第二次点击按双击处理；仅在设置了 onItemDoubleTapFn 或监听了双击事件时生效',
+    range: [0.1, 1, 0.05],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public doubleTapInterval: number = 0.3;
+
+  @property({
+    displayName: '拖动排序',
+    tooltip: '长按子项后拖动调整顺序，松手时通过 onItemMovedFn 通知外部移动数据（不支持循环模式）',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public enableReorder: boolean = false;
+
+  @property({
+    displayName: '===边缘滚动速度',
+    tooltip: '拖到视口边缘时列表自动滚动的最大速度（像素/秒）',
+    range: [100, 5000, 50],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.enableReorder;
+    },
+  })
+  public reorderScrollSpeed: number = 800;
+
+  @property({
+    displayName: '滑动操作',
+    tooltip: '纵向列表中左右滑动子项露出其后的操作按钮；子项需包含跟随滑动的内容子节点',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.direction === ScrollDirection.VERTICAL;
+    },
+  })
+  public enableSwipeActions: boolean = false;
+
+  @property({
+    displayName: '===内容节点名',
+    tooltip: '子项中跟随手指滑动的子节点名称，操作按钮放在该节点后面',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.direction === ScrollDirection.VERTICAL && this.enableSwipeActions;
+    },
+  })
+  public swipeContentNodeName: string = 'content';
+
+  @property({
+    displayName: '===左侧操作区宽度',
+    tooltip: '向右滑露出的左侧操作区宽度，0 表示不能向右滑',
+    range: [0, 1000, 1],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.direction === ScrollDirection.VERTICAL && this.enableSwipeActions;
+    },
+  })
+  public swipeLeftActionWidth: number = 0;
+
+  @property({
+    displayName: '===右侧操作区宽度',
+    tooltip: '向左滑露出的右侧操作区宽度，0 表示不能向左滑',
+    range: [0, 1000, 1],
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.direction === ScrollDirection.VERTICAL && this.enableSwipeActions;
+    },
+  })
+  public swipeRightActionWidth: number = 160;
+
+  @property({
+    displayName: '===滑过整行触发',
+    tooltip: '滑过整行宽度一半后松手直接触发 onItemFullSwipeFn（如删除）',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList && this.direction === ScrollDirection.VERTICAL && this.enableSwipeActions;
+    },
+  })
+  public fullSwipeTrigger: boolean = false;
+
   @property({
     displayName: '启用下拉刷新',
     tooltip: '是否启用下拉刷新功能',
@@ -288,14 +763,130 @@ export class VirtualScrollView extends cc.Component {
   @property({ displayName: 'iOS减速曲线', tooltip: '是否使用 iOS 风格的减速曲线' })
   public useIOSDecelerationCurve: boolean = true;
 
+  @property({
+    displayName: '方向锁定',
+    tooltip: '拖动超过点击判定距离后按初始方向锁定：与本列表方向一致时由本列表独占，否则交给外层列表（嵌套列表时使用）',
+  })
+  public directionLock: boolean = true;
+
+  @property({
+    displayName: '滚动传递',
+    tooltip: '滚动到边界后，剩余的拖动距离和惯性速度传给外层同方向的 VirtualScrollView',
+  })
+  public scrollChaining: boolean = true;
+
+  @property({ displayName: '鼠标滚轮', tooltip: '是否响应鼠标滚轮/触控板滚动（横向列表使用 Shift+滚轮）' })
+  public enableMouseWheel: boolean = true;
+
+  @property({
+    displayName: '===滚轮每格距离',
+    tooltip: '普通滚轮每滚动一格移动的距离（像素），平滑滚动并准确停在整格位置，连续滚动时累加目标',
+    range: [10, 2000, 10],
+    visible(this: VirtualScrollView) {
+      return this.enableMouseWheel;
+    },
+  })
+  public wheelLineStep: number = 120;
+
+  @property({
+    displayName: '===触控板像素系数',
+    tooltip: '触控板等高频小幅滚动事件的像素倍率，这类事件直接跟手移动（仅 Web 平台，原生平台一律按整格滚动）',
+    range: [0.1, 10, 0.1],
+    visible(this: VirtualScrollView) {
+      return this.enableMouseWheel;
+    },
+  })
+  public wheelPixelScale: number = 1;
+
+  @property
+  private _enableKeyboardNav: boolean = false;
+
+  @property({
+    displayName: '键盘/手柄导航',
+    tooltip:
+      '方向键、PageUp/PageDown、Home/End 及手柄十字键移动焦点，确认键（Enter/空格/手柄确认）触发点击；多个列表同时开启时，只有最近被触摸或设置过焦点的列表响应按键',
+  })
+  get enableKeyboardNav(): boolean {
+    return this._enableKeyboardNav;
+  }
+  set enableKeyboardNav(value: boolean) {
+    this._enableKeyboardNav = value;
+    this._updateKeyboardBinding(this.enabledInHierarchy);
+  }
+
+  @property({
+    type: SnapModeEnum,
+    displayName: '吸附模式',
+    tooltip: '松手后停在子项边界或整页上；目标由松手速度决定',
+  })
+  public snapMode: SnapMode = SnapMode.NONE;
+
+  @property({
+    type: SnapAlignEnum,
+    displayName: '===吸附对齐',
+    tooltip: '按子项吸附时，子项与视口的对齐方式',
+    visible(this: VirtualScrollView) {
+      return this.snapMode === SnapMode.ITEM;
+    },
+  })
+  public snapAlign: SnapAlign = SnapAlign.START;
+
+  @property({
+    displayName: '===单次最多翻页',
+    tooltip: '松手后惯性最多跨越的页数（从松手位置最近的页算起，按子项吸附时为行数），0 为不限制',
+    range: [0, 100, 1],
+    visible(this: VirtualScrollView) {
+      return this.snapMode !== SnapMode.NONE;
+    },
+  })
+  public maxPagesPerFling: number = 1;
+
+  @property({
+    type: ItemTransformPresetEnum,
+    displayName: '子项位置效果',
+    tooltip: '按子项到视口中心的距离缩放、侧转或淡出，可配合 itemTransformFn 自定义',
+    visible(this: VirtualScrollView) {
+      return this.useVirtualList;
+    },
+  })
+  public itemTransformPreset: ItemTransformPreset = ItemTransformPreset.NONE;
+
+  @property({
+    displayName: '===淡出区域',
+    tooltip: '从视口两端开始淡出的区域，占半个视口的比例',
+    range: [0.05, 1, 0.05],
+    visible(this: VirtualScrollView) {
+      return this.itemTransformPreset === ItemTransformPreset.WHEEL || this.itemTransformPreset === ItemTransformPreset.FADE_EDGES;
+    },
+  })
+  public itemFadeRange: number = 0.3;
+
   public renderItemFn: RenderItemFn | null = null;
+  public renderPlaceholderFn: RenderPlaceholderFn | null = null;
+  public onPrefetchRangeFn: OnPrefetchRangeFn | null = null;
   public provideNodeFn: ProvideNodeFn | null = null;
   public onItemClickFn: OnItemClickFn | null = null;
+  public onItemLongPressFn: OnItemGestureFn | null = null;
+  public onItemDoubleTapFn: OnItemGestureFn | null = null;
+  public onItemPressFn: OnItemGestureFn | null = null;
+  public onItemReleaseFn: OnItemGestureFn | null = null;
   public playItemAppearAnimationFn: PlayItemAppearAnimationFn | null = null;
   public getItemHeightFn: GetItemHeightFn | null = null;
   public getItemTypeIndexFn: GetItemTypeIndexFn | null = null;
   public onRefreshStateChangeFn: OnRefreshStateChangeFn | null = null;
   public onLoadMoreStateChangeFn: OnLoadMoreStateChangeFn | null = null;
+  public onNewMessageCountChangeFn: OnNewMessageCountChangeFn | null = null;
+  public renderSectionHeaderFn: RenderSectionHeaderFn | null = null;
+  public onPageChangedFn: OnPageChangedFn | null = null;
+  public onItemFocusChangeFn: OnItemFocusChangeFn | null = null;
+  public onSelectionChangedFn: OnSelectionChangedFn | null = null;
+  public onItemMovedFn: OnItemMovedFn | null = null;
+  public onItemSwipeStateChangeFn: OnItemSwipeFn | null = null;
+  public onItemFullSwipeFn: OnItemSwipeFn | null = null;
+  // 每次滚动或重排后对每个可见子项调用，在内置效果预设之后执行
+  public itemTransformFn: ItemTransformFn | null = null;
+  // 自定义布局，为空时使用组件内置的等大小/不等大小排布；运行中修改请调用 setLayout
+  public layout: VScrollLayout | null = null;
 
   private _viewportSize = 0;
   private _contentSize = 0;
@@ -309,6 +900,12 @@ export class VirtualScrollView extends cc.Component {
   private _slotFirstIndex = 0;
   private _itemSizes: number[] = [];
   private _prefixPositions: number[] = [];
+  // 多列不等大小（瀑布流/不等高网格）：每项所在列，以及前 i 项中最大的结束位置（单调不减，用于查找首个可见项）
+  private _itemColumns: number[] = [];
+  private _prefixMaxEnds: number[] = [];
+  private _maxVisibleSpan = 0; // 视口内最多同时可见的索引跨度
+  private _layoutCtx: VScrollLayoutContext | null = null; // 自定义布局的上下文
+  private _slotTemplate: cc.Node | null = null; // 等大小模式创建槽位节点的模板
   private _prefabSizeCache: Map<number, number> = new Map();
   private _nodePool: InternalNodePool | null = null;
   private _slotPrefabIndices: number[] = [];
@@ -316,6 +913,15 @@ export class VirtualScrollView extends cc.Component {
   private _initSortLayerFlag: boolean = true;
   private _scrollTween: cc.Tween | null = null;
   private _tmpMoveVec2 = new cc.Vec2();
+  private _dataKeys: any[] | null = null; // applyData 的 key 快照
+  private _dataSnapshot: any[] = [];
+  // 分组模式
+  private _sectionCounts: number[] = []; // 每组条目数
+  private _sectionFirstIndex: number[] = []; // 每组首项的数据索引
+  private _sectionStarts: number[] = []; // 每组分组头在主方向上的起始偏移
+  private _sectionHeaderSize = 0;
+  private _sectionHeaderPool: InternalNodePool | null = null;
+  private _sectionHeaderNodes: Map<number, cc.Node> = new Map();
 
   // 私有状态变量
   private _refreshState: RefreshState = RefreshState.IDLE;
@@ -325,6 +931,51 @@ export class VirtualScrollView extends cc.Component {
   private _isRefreshing: boolean = false;
   private _isLoadingMore: boolean = false;
   private _hasMore: boolean = true; // 是否还有更多数据
+  private _stickToEnd: boolean = true; // 聊天模式：是否跟随最新消息
+  private _newMessageCount: number = 0; // 聊天模式：停止跟随后收到的新消息数
+  private _snapTarget: number | null = null; // 吸附目标位置（content 坐标）
+  private _currentPage: number = 0;
+  // 事件
+  private _events = new ScrollEventEmitter();
+  private _isScrolling = false;
+  private _bounceEmitted = false;
+  private _lastVisibleStart = -1;
+  private _lastVisibleEnd = -1;
+  private _lastPrefetchStart = -1;
+  private _lastPrefetchEnd = -1;
+  // 鼠标滚轮
+  private _wheelHoldTime = 0; // 触控板滚动后保持“滚动中”的剩余时间
+  private _wheelTarget: number | null = null; // 普通滚轮累积的目标内容位置
+  private _wheelLastTime = 0;
+  private _wheelPixelMode = false; // 当前这串滚轮事件是否按触控板像素滚动处理
+  private _focusedIndex = -1; // 键盘焦点所在的数据索引
+  private _keyboardBound = false;
+  // 接收键盘导航的列表：最近一次被触摸或调用 setFocusedIndex/focus 的列表
+  private static _focusOwner: VirtualScrollView | null = null;
+  private _selectedIndices: Set<number> = new Set();
+  private _selectionAnchor = -1; // Shift 连续选择的起点
+  // 拖动排序
+  private _reorderFrom = -1; // 被拖动项的原索引，-1 表示未在拖动
+  private _reorderTo = -1; // 当前空位所在索引
+  private _reorderProxy: cc.Node | null = null; // 跟随手指的替身节点
+  private _reorderHiddenNode: cc.Node | null = null; // 被拖动项的原节点（拖动中隐藏）
+  private _reorderGrabOffset = new cc.Vec2(); // 替身节点与触点的偏移
+  private _reorderTweens: Map<cc.Node, cc.Tween> = new Map();
+  private _touchLocation = new cc.Vec2(); // 最近一次触点位置
+  private _touchDownContentPos = 0; // 按下时的 content 位置
+  private _openSwipeItem: VScrollViewItem | null = null; // 当前打开操作区的子项
+  private _pressedItem: VScrollViewItem | null = null; // 当前按下的子项
+  private _dragLock = 0; // 方向锁定：0 未确定 1 由本列表处理 2 交给外层列表
+  private _dataSource: PagedDataSource | null = null; // 分页数据源
+  private _pendingState: VScrollViewState | null = null; // 初始化完成前收到的 restoreState
+  private _measureQueue: Map<cc.Node, { index: number; frame: number }> = new Map(); // 等待测量尺寸的节点
+  // 分帧渲染
+  private _pendingRenders: Set<number> = new Set(); // 超出预算、等待渲染的虚拟索引
+  private _pendingOrder: number[] = [];
+  private _placeholderNodes: Set<cc.Node> = new Set(); // 正在显示占位的节点
+  private _budgetFrame = -1;
+  private _budgetCount = 0;
+  private _budgetStart = 0;
 
   private get _contentTf(): cc.Size {
     this.content = this._getContentNode();
@@ -343,6 +994,35 @@ export class VirtualScrollView extends cc.Component {
     return this.content;
   }
 
+  /** 订阅列表事件，回调参数见 VScrollViewEventMap */
+  public on<K extends keyof VScrollViewEventMap>(type: K, callback: (...args: VScrollViewEventMap[K]) => void, target?: any) {
+    this._events.on(type, callback, target, false);
+  }
+
+  /** 订阅一次列表事件 */
+  public once<K extends keyof VScrollViewEventMap>(type: K, callback: (...args: VScrollViewEventMap[K]) => void, target?: any) {
+    this._events.on(type, callback, target, true);
+  }
+
+  /** 取消订阅；不传 callback 时移除该事件的全部监听 */
+  public off<K extends keyof VScrollViewEventMap>(type: K, callback?: (...args: VScrollViewEventMap[K]) => void, target?: any) {
+    this._events.off(type, callback, target);
+  }
+
+  /** 移除 target 注册的全部监听 */
+  public targetOff(target: any) {
+    this._events.targetOff(target);
+  }
+
+  private _emit<K extends keyof VScrollViewEventMap>(type: K, ...args: VScrollViewEventMap[K]) {
+    this._events.emit(type, args);
+    if (this.node.hasEventListener(type)) this.node.emit(type, ...args);
+  }
+
+  private _hasListener(type: VScrollViewEvent): boolean {
+    return this._events.has(type) || this.node.hasEventListener(type);
+  }
+
   private _isVertical(): boolean {
     return this.direction === ScrollDirection.VERTICAL;
   }
@@ -366,29 +1046,162 @@ export class VirtualScrollView extends cc.Component {
     }
   }
 
-  private _getContentMainSizeValue(): number {
-    if (!this.content) return 0;
-    const size = this.content.getContentSize();
-    return this._isVertical() ? size.height : size.width;
+  /** 滚动偏移量（沿主方向从列表起点算起，向后为正） */
+  private _getScrollOffset(): number {
+    return this._isVertical() ? this._getContentMainPos() : -this._getContentMainPos();
   }
 
-  private _setContentMainSize(value: number) {
-    if (!this.content) return;
-    const size = this.content.getContentSize();
-    if (this._isVertical()) this.content.setContentSize(size.width, value);
-    else this.content.setContentSize(value, size.height);
+  private _offsetToContentPos(offset: number): number {
+    return this._isVertical() ? offset : -offset;
   }
 
-  private _getNodeMainSize(node: cc.Node): number {
-    const size = node.getContentSize();
-    return this._isVertical() ? size.height : size.width;
+  /** 数据项在主方向上的起始偏移 */
+  private _getItemStartPos(index: number): number {
+    if (this._hasCustomLayout()) return this.layout!.getItemRect(this._layoutCtx!, index).start;
+    if (this.useDynamicSize) return this._prefixPositions[index] || 0;
+    const stride = this.itemMainSize + this.spacing;
+    if (this._sectionCounts.length === 0) return Math.floor(index / this.gridCount) * stride;
+    const section = this.getSectionOfIndex(index);
+    const line = Math.floor((index - this._sectionFirstIndex[section]) / this.gridCount);
+    return this._sectionStarts[section] + this._sectionHeaderSize + this.spacing + line * stride;
   }
 
-  private _getNodeAnchor(node: cc.Node): cc.Vec2 {
-    return node.getAnchorPoint ? node.getAnchorPoint() : cc.v2(0.5, 0.5);
+  /** 数据项在主方向上的尺寸 */
+  private _getItemMainSize(index: number): number {
+    if (this._hasCustomLayout()) return this.layout!.getItemRect(this._layoutCtx!, index).size;
+    return this.useDynamicSize ? this._itemSizes[index] || 0 : this.itemMainSize;
   }
 
-  async start() {
+  private _isLooping(): boolean {
+    return (
+      this.loopMode && this.useVirtualList && this.totalCount > 0 && !this._isMultiColumnDynamic() && !this._hasCustomLayout()
+    );
+  }
+
+  private _hasCustomLayout(): boolean {
+    return !!this.layout && !!this._layoutCtx && this.useVirtualList;
+  }
+
+  private _isWaterfall(): boolean {
+    return this.waterfall && this.useDynamicSize && this.useVirtualList && !this.layout;
+  }
+
+  /** 不等大小模式下分多列排布（瀑布流或开启了不等高网格） */
+  private _isMultiColumnDynamic(): boolean {
+    if (!this.useDynamicSize || !this.useVirtualList || this.layout) return false;
+    return this.waterfall || (this.dynamicGrid && this.gridCount > 1);
+  }
+
+  /** 按行排列的网格列数（横向为行数），单列列表、瀑布流和自定义布局为 1 */
+  private _getGridColumns(): number {
+    if (this.layout) return 1;
+    if (this.useDynamicSize) return this.dynamicGrid && !this.waterfall ? this.gridCount : 1;
+    return this.gridCount;
+  }
+
+  /** 循环模式下的虚拟索引转换为数据索引 */
+  private _wrapIndex(index: number): number {
+    if (!this._isLooping()) return index;
+    const n = this.totalCount;
+    return ((index % n) + n) % n;
+  }
+
+  /** 循环模式下一轮数据在主方向上占用的长度 */
+  private _getLoopCycleSize(): number {
+    return this._contentSize + this.spacing;
+  }
+
+  /** 虚拟索引在主方向上的起始偏移（非循环模式下与 _getItemStartPos 相同） */
+  private _getVirtualItemStart(index: number): number {
+    if (!this._isLooping()) return this._getItemStartPos(index);
+    const cycle = Math.floor(index / this.totalCount);
+    return cycle * this._getLoopCycleSize() + this._getItemStartPos(this._wrapIndex(index));
+  }
+
+  /** 槽位上的虚拟索引是否对应有效数据 */
+  private _isIndexInRange(index: number): boolean {
+    return this._isLooping() || index < this.totalCount;
+  }
+
+  /** 限制在滚动边界内，循环模式不限制 */
+  private _clampToBounds(pos: number): number {
+    return this._isLooping() ? pos : clamp(pos, this._boundsMin, this._boundsMax);
+  }
+
+  /** 滚动到数据项的目标偏移，循环模式下选择最近的一轮 */
+  private _getIndexScrollOffset(index: number): number {
+    if (this._hasCustomLayout()) return this.layout!.getScrollOffset(this._layoutCtx!, index);
+    const start = this._getItemStartPos(index);
+    if (!this._isLooping()) return start;
+    const cycleSize = this._getLoopCycleSize();
+    return start + Math.round((this._getScrollOffset() - start) / cycleSize) * cycleSize;
+  }
+
+  /** 网格中数据项所在的列（横向模式为行），分组时每组从第 0 列开始 */
+  private _getItemGridPos(index: number): number {
+    if (this.useDynamicSize) return this._itemColumns[index] || 0;
+    if (this._sectionCounts.length === 0) return index % this.gridCount;
+    return (index - this._sectionFirstIndex[this.getSectionOfIndex(index)]) % this.gridCount;
+  }
+
+  /** 等大小模式：主方向偏移处的首个数据索引（未做范围裁剪） */
+  private _fixedOffsetToIndex(offset: number): number {
+    const stride = this.itemMainSize + this.spacing;
+    if (this._sectionCounts.length === 0) return Math.floor(offset / stride) * this.gridCount;
+    const section = this._getSectionAtOffset(offset);
+    const local = offset - this._sectionStarts[section] - this._sectionHeaderSize - this.spacing;
+    const line = local > 0 ? Math.floor(local / stride) : 0;
+    const lines = Math.ceil(this._sectionCounts[section] / this.gridCount);
+    // 位于分组末尾的间隙中时，取下一组的首项
+    if (line >= lines) return this._sectionFirstIndex[section] + this._sectionCounts[section];
+    return this._sectionFirstIndex[section] + line * this.gridCount;
+  }
+
+  /** 主方向偏移处的数据索引（网格模式为所在行的首项） */
+  private _offsetToIndex(offset: number): number {
+    if (this._hasCustomLayout()) {
+      const range = this.layout!.getIndexRange(this._layoutCtx!, offset, offset + 1);
+      return clamp(range.start, 0, Math.max(0, this.totalCount - 1));
+    }
+    const index = this.useDynamicSize ? this._posToFirstIndex(offset) : this._fixedOffsetToIndex(Math.max(0, offset));
+    return clamp(index, 0, Math.max(0, this.totalCount - 1));
+  }
+
+  /** 按主方向起点和尺寸摆放节点 */
+  private _placeNodeMain(node: cc.Node, start: number, size: number, crossPos: number) {
+    const anchor = this._getNodeAnchor(node);
+    if (this._isVertical()) {
+      const y = -(start + size * (1 - anchor.y));
+      node.setPosition(this.pixelAlign ? Math.round(crossPos) : crossPos, this.pixelAlign ? Math.round(y) : y);
+    } else {
+      const x = start + size * anchor.x;
+      node.setPosition(this.pixelAlign ? Math.round(x) : x, this.pixelAlign ? Math.round(crossPos) : crossPos);
+    }
+  }
+
+  private _getContentMainSizeValue(): number {
+    if (!this.content) return 0;
+    const size = this.content.getContentSize();
+    return this._isVertical() ? size.height : size.width;
+  }
+
+  private _setContentMainSize(value: number) {
+    if (!this.content) return;
+    const size = this.content.getContentSize();
+    if (this._isVertical()) this.content.setContentSize(size.width, value);
+    else this.content.setContentSize(value, size.height);
+  }
+
+  private _getNodeMainSize(node: cc.Node): number {
+    const size = node.getContentSize();
+    return this._isVertical() ? size.height : size.width;
+  }
+
+  private _getNodeAnchor(node: cc.Node): cc.Vec2 {
+    return node.getAnchorPoint ? node.getAnchorPoint() : cc.v2(0.5, 0.5);
+  }
+
+  async start() {
     this.content = this._getContentNode();
     if (!this.content) return;
     const mask = this.node.getComponent(cc.Mask);
@@ -416,21 +1229,54 @@ export class VirtualScrollView extends cc.Component {
     }
     if (this.useDynamicSize) await this._initDynamicSizeMode();
     else await this._initFixedSizeMode();
+    if (this.chatMode) {
+      this._pinToEnd();
+      this._updateVisible(true);
+    }
+    this._updateSectionHeaders(true);
+    if (this._pendingState) {
+      const state = this._pendingState;
+      this._pendingState = null;
+      this.restoreState(state);
+    }
     this._bindTouch();
     this._bindGlobalTouch();
   }
 
+  onEnable() {
+    shiftKey.retain();
+    this._updateKeyboardBinding(true);
+  }
+
+  onDisable() {
+    shiftKey.release();
+    this._updateKeyboardBinding(false);
+    this._cancelReorder(true);
+  }
+
   onDestroy() {
+    this._cancelReorder(false);
     // cc.systemEvent.off(cc.SystemEvent.EventType.TOUCH_END, this._onGlobalTouchEnd, this);
     // cc.systemEvent.off(cc.SystemEvent.EventType.TOUCH_CANCEL, this._onGlobalTouchEnd, this);
     this.node.off(cc.Node.EventType.TOUCH_START, this._onDown, this);
     this.node.off(cc.Node.EventType.TOUCH_MOVE, this._onMove, this);
     this.node.off(cc.Node.EventType.TOUCH_END, this._onUp, this);
     this.node.off(cc.Node.EventType.TOUCH_CANCEL, this._onUp, this);
+    this.node.off(cc.Node.EventType.MOUSE_WHEEL, this._onMouseWheel, this);
     if (this._nodePool) {
       this._nodePool.clear();
       this._nodePool = null;
     }
+    if (this._sectionHeaderPool) {
+      this._sectionHeaderPool.clear();
+      this._sectionHeaderPool = null;
+    }
+    this._events.clear();
+    if (this._dataSource) {
+      this._dataSource.onPageLoaded = null;
+      this._dataSource.isPageInUse = null;
+    }
+    this._measureQueue.clear();
   }
 
   private _bindTouch() {
@@ -438,6 +1284,20 @@ export class VirtualScrollView extends cc.Component {
     this.node.on(cc.Node.EventType.TOUCH_MOVE, this._onMove, this);
     this.node.on(cc.Node.EventType.TOUCH_END, this._onUp, this);
     this.node.on(cc.Node.EventType.TOUCH_CANCEL, this._onUp, this);
+    this.node.on(cc.Node.EventType.MOUSE_WHEEL, this._onMouseWheel, this);
+  }
+
+  /** 仅在开启键盘导航且组件启用时监听全局按键，关闭或禁用时移除监听并交出键盘焦点 */
+  private _updateKeyboardBinding(active: boolean) {
+    const bind = active && this._enableKeyboardNav;
+    if (bind === this._keyboardBound) return;
+    this._keyboardBound = bind;
+    if (bind) {
+      cc.systemEvent.on(cc.SystemEvent.EventType.KEY_DOWN, this._onKeyDown, this);
+    } else {
+      cc.systemEvent.off(cc.SystemEvent.EventType.KEY_DOWN, this._onKeyDown, this);
+      this.blur();
+    }
   }
 
   private _bindGlobalTouch() {
@@ -467,6 +1327,7 @@ export class VirtualScrollView extends cc.Component {
     }
     let item_pre = this.provideNodeFn(0);
     if (item_pre instanceof Promise) item_pre = await item_pre;
+    this._slotTemplate = item_pre;
     const baseSize = item_pre.getContentSize();
     if (this._isVertical()) {
       this.itemMainSize = baseSize.height;
@@ -478,7 +1339,9 @@ export class VirtualScrollView extends cc.Component {
     this._recomputeContentSize();
     const stride = this.itemMainSize + this.spacing;
     const visibleLines = Math.ceil(this._viewportSize / stride);
-    this._slots = Math.max(1, (visibleLines + this.buffer + 2) * this.gridCount);
+    this._slots = this._hasCustomLayout()
+      ? this._getLayoutSlotCount()
+      : Math.max(1, (visibleLines + this.buffer + 2) * this.gridCount);
     for (let i = 0; i < this._slots; i++) {
       const n = cc.instantiate(item_pre);
       n.parent = this.content!;
@@ -548,6 +1411,8 @@ export class VirtualScrollView extends cc.Component {
     neededSlots = Math.max(neededSlots, minSlots);
     const maxSlots = Math.ceil(this._viewportSize / 50) + this.buffer * 4;
     neededSlots = Math.min(neededSlots, maxSlots);
+    if (this._isMultiColumnDynamic()) neededSlots = this._getMultiColumnSlotCount();
+    else if (this._hasCustomLayout()) neededSlots = this._getLayoutSlotCount();
     this._slots = Math.min(neededSlots, Math.max(this.totalCount, minSlots));
     this._slotNodes = new Array(this._slots).fill(null);
     this._slotPrefabIndices = new Array(this._slots).fill(-1);
@@ -557,14 +1422,38 @@ export class VirtualScrollView extends cc.Component {
   }
 
   private _buildPrefixSum() {
-    const n = this._itemSizes.length;
-    this._prefixPositions = new Array(n);
-    let acc = 0;
-    for (let i = 0; i < n; i++) {
-      this._prefixPositions[i] = acc;
-      acc += this._itemSizes[i] + this.spacing;
+    if (this.layout && this.useVirtualList) {
+      this._rebuildLayout();
+      if (this._slots > 0) this._expandSlotsIfNeeded();
+      return;
+    }
+    if (this._isWaterfall()) {
+      this._buildWaterfall();
+      this._computeMaxVisibleSpan();
+    } else if (this._isMultiColumnDynamic()) {
+      this._buildDynamicGrid();
+      this._computeMaxVisibleSpan();
+    } else {
+      const n = this._itemSizes.length;
+      const sectionCount = this._sectionCounts.length;
+      this._prefixPositions = new Array(n);
+      let acc = 0;
+      let section = 0;
+      for (let i = 0; i < n; i++) {
+        // 分组头占位
+        while (section < sectionCount && this._sectionFirstIndex[section] === i) {
+          this._sectionStarts[section++] = acc;
+          acc += this._sectionHeaderSize + this.spacing;
+        }
+        this._prefixPositions[i] = acc;
+        acc += this._itemSizes[i] + this.spacing;
+      }
+      while (section < sectionCount) {
+        this._sectionStarts[section++] = acc;
+        acc += this._sectionHeaderSize + this.spacing;
+      }
+      this._contentSize = acc - this.spacing;
     }
-    this._contentSize = acc - this.spacing;
     if (this._contentSize < 0) this._contentSize = 0;
     this._setContentMainSize(Math.max(this._contentSize, this._viewportSize));
     if (this._isVertical()) {
@@ -576,8 +1465,163 @@ export class VirtualScrollView extends cc.Component {
     }
   }
 
+  /** 自定义布局：刷新上下文并重新计算内容长度与最大可见跨度 */
+  private _rebuildLayout() {
+    const layout = this.layout!;
+    const viewport = this._viewportTf;
+    const ctx: VScrollLayoutContext = {
+      vertical: this._isVertical(),
+      count: this.totalCount,
+      viewportSize: this._viewportSize,
+      viewportCrossSize: this._isVertical() ? viewport.width : viewport.height,
+      spacing: this.spacing,
+      itemCrossSize: this.useDynamicSize ? 0 : this.itemCrossSize,
+      getItemSize: (index: number) => (this.useDynamicSize ? this._itemSizes[index] || 0 : this.itemMainSize),
+    };
+    this._layoutCtx = ctx;
+    if (layout.prepare) layout.prepare(ctx);
+    this._contentSize = Math.max(0, layout.getContentSize(ctx));
+    // 每隔半个视口采样一次可见跨度，滚动中发现更大的跨度时再扩展槽位
+    let maxVisible = 1;
+    const step = Math.max(1, this._viewportSize / 2);
+    for (let pos = 0; pos < this._contentSize + step; pos += step) {
+      const range = layout.getIndexRange(ctx, pos, pos + this._viewportSize);
+      maxVisible = Math.max(maxVisible, range.end - range.start + 1);
+    }
+    this._maxVisibleSpan = maxVisible;
+    this._setContentMainSize(Math.max(this._contentSize, this._viewportSize));
+    if (this._isVertical()) {
+      this._boundsMin = 0;
+      this._boundsMax = Math.max(0, this._contentSize - this._viewportSize);
+    } else {
+      this._boundsMin = -Math.max(0, this._contentSize - this._viewportSize);
+      this._boundsMax = 0;
+    }
+  }
+
+  /**
+   * 瀑布流排布：按索引顺序放入当前最短的列。
+   * 最短列的高度只增不减，因此各项起始位置随索引单调不减，可直接二分查找
+   */
+  private _buildWaterfall() {
+    const n = this._itemSizes.length;
+    const cols = Math.max(1, this.gridCount);
+    const heights: number[] = new Array(cols).fill(0);
+    this._prefixPositions = new Array(n);
+    this._itemColumns = new Array(n);
+    this._prefixMaxEnds = new Array(n);
+    let maxEnd = 0;
+    for (let i = 0; i < n; i++) {
+      let col = 0;
+      for (let c = 1; c < cols; c++) {
+        if (heights[c] < heights[col]) col = c;
+      }
+      this._prefixPositions[i] = heights[col];
+      this._itemColumns[i] = col;
+      maxEnd = Math.max(maxEnd, heights[col] + this._itemSizes[i]);
+      this._prefixMaxEnds[i] = maxEnd;
+      heights[col] += this._itemSizes[i] + this.spacing;
+    }
+    this._contentSize = n > 0 ? maxEnd : 0;
+  }
+
+  /**
+   * 不等高网格：按行排列，每行高度取该行最高的子项，分组的首项另起一行。
+   * 同一行的项起始位置相同
+   */
+  private _buildDynamicGrid() {
+    const n = this._itemSizes.length;
+    const cols = Math.max(1, this.gridCount);
+    const sectionCount = this._sectionCounts.length;
+    this._prefixPositions = new Array(n);
+    this._itemColumns = new Array(n);
+    this._prefixMaxEnds = new Array(n);
+    let acc = 0;
+    let section = 0;
+    let i = 0;
+    while (i < n) {
+      // 分组头占位
+      while (section < sectionCount && this._sectionFirstIndex[section] === i) {
+        this._sectionStarts[section++] = acc;
+        acc += this._sectionHeaderSize + this.spacing;
+      }
+      let rowEnd = Math.min(n, i + cols);
+      if (section < sectionCount) rowEnd = Math.min(rowEnd, this._sectionFirstIndex[section]);
+      let rowSize = 0;
+      for (let k = i; k < rowEnd; k++) {
+        this._prefixPositions[k] = acc;
+        this._itemColumns[k] = k - i;
+        rowSize = Math.max(rowSize, this._itemSizes[k]);
+      }
+      for (let k = i; k < rowEnd; k++) this._prefixMaxEnds[k] = acc + rowSize;
+      acc += rowSize + this.spacing;
+      i = rowEnd;
+    }
+    while (section < sectionCount) {
+      this._sectionStarts[section++] = acc;
+      acc += this._sectionHeaderSize + this.spacing;
+    }
+    this._contentSize = acc - this.spacing;
+  }
+
+  /** 视口从第 i 项开始可见时，末尾可见项为起点小于 maxEnd[i] + 视口尺寸的最后一项，双指针求最大跨度 */
+  private _computeMaxVisibleSpan() {
+    const n = this._prefixPositions.length;
+    let maxVisible = 0;
+    let last = 0;
+    for (let i = 0; i < n; i++) {
+      const limit = this._prefixMaxEnds[i] + this._viewportSize;
+      while (last + 1 < n && this._prefixPositions[last + 1] < limit) last++;
+      maxVisible = Math.max(maxVisible, last - i + 1);
+    }
+    this._maxVisibleSpan = maxVisible;
+  }
+
+  /** 多列不等大小模式下第 index 项在副方向上的中心位置与列宽 */
+  private _getDynamicCross(index: number): { pos: number; size: number } {
+    const cols = Math.max(1, this.gridCount);
+    const viewport = this._viewportTf;
+    const total = this._isVertical() ? viewport.width : viewport.height;
+    const size = (total - (cols - 1) * this.gridSpacing) / cols;
+    const offset = (this._itemColumns[index] || 0) * (size + this.gridSpacing) + size / 2 - total / 2;
+    return { pos: this._isVertical() ? offset : -offset, size };
+  }
+
+  /** 多列不等大小：起始位置小于 pos 的最后一项 */
+  private _lastIndexStartingBefore(pos: number): number {
+    let l = 0,
+      r = this._prefixPositions.length - 1,
+      ans = -1;
+    while (l <= r) {
+      const m = (l + r) >> 1;
+      if (this._prefixPositions[m] < pos) {
+        ans = m;
+        l = m + 1;
+      } else {
+        r = m - 1;
+      }
+    }
+    return ans;
+  }
+
   private _posToFirstIndex(pos: number): number {
     if (pos <= 0) return 0;
+    if (this._isMultiColumnDynamic()) {
+      // 第一个结束位置越过 pos 的项，之前的项都已完全离开视口
+      let l = 0,
+        r = this._prefixMaxEnds.length - 1,
+        ans = this._prefixMaxEnds.length - 1;
+      while (l <= r) {
+        const m = (l + r) >> 1;
+        if (this._prefixMaxEnds[m] > pos) {
+          ans = m;
+          r = m - 1;
+        } else {
+          l = m + 1;
+        }
+      }
+      return Math.max(0, ans);
+    }
     let l = 0,
       r = this._prefixPositions.length - 1,
       ans = this._prefixPositions.length;
@@ -603,16 +1647,33 @@ export class VirtualScrollView extends cc.Component {
       if (this._prefixPositions[end] >= endPos) break;
       end++;
     }
-    return { start: Math.max(0, start - this.buffer), end: Math.min(n, end + this.buffer) };
+    const buffer = this._isMultiColumnDynamic() ? this.buffer * Math.max(1, this.gridCount) : this.buffer;
+    return { start: Math.max(0, start - buffer), end: Math.min(n, end + buffer) };
   }
 
   update(dt: number) {
+    this._flushPendingRenders();
+    this._flushMeasurements();
+    if (this._reorderFrom >= 0) {
+      this._updateReorderAutoScroll(dt);
+      return;
+    }
     if (!this.content || this._isTouching || this._scrollTween) return;
+    if (this._wheelHoldTime > 0) {
+      this._wheelHoldTime -= dt;
+      if (this._wheelHoldTime <= 0 && this.snapMode !== SnapMode.NONE) this._snapTarget = this._chooseSnapTarget(0);
+    }
+    if (this._wheelTarget !== null) {
+      this._stepWheelScroll(dt);
+      return;
+    }
     let pos = this._getContentMainPos();
     let a = 0;
 
-    const minBound = Math.min(this._boundsMin, this._boundsMax);
-    const maxBound = Math.max(this._boundsMin, this._boundsMax);
+    // 循环模式没有边界
+    const minBound = this._isLooping() ? -Infinity : Math.min(this._boundsMin, this._boundsMax);
+    const maxBound = this._isLooping() ? Infinity : Math.max(this._boundsMin, this._boundsMax);
+    if (this._chainFling(pos, minBound, maxBound)) return;
 
     // 处理刷新/加载状态
     if (this._isRefreshing && this._refreshState === RefreshState.REFRESHING) {
@@ -623,11 +1684,17 @@ export class VirtualScrollView extends cc.Component {
       // 加载中，保持在加载位置
       const loadPos = this._isVertical() ? this._boundsMax + this.loadMoreThreshold : this._boundsMin - this.loadMoreThreshold;
       a = -this.springK * (pos - loadPos) - this.springC * this._velocity;
+    } else if (this._snapTarget !== null) {
+      // 吸附中，用弹簧收敛到目标位置
+      a = -this.springK * (pos - this._snapTarget) - this.springC * this._velocity;
     } else if (pos < minBound) {
       a = -this.springK * (pos - minBound) - this.springC * this._velocity;
+      this._emitBounce(this._isVertical());
     } else if (pos > maxBound) {
       a = -this.springK * (pos - maxBound) - this.springC * this._velocity;
+      this._emitBounce(!this._isVertical());
     } else {
+      this._bounceEmitted = false;
       if (this.useIOSDecelerationCurve) {
         const speed = Math.abs(this._velocity);
         if (speed > 2000) this._velocity *= Math.exp(-this.inertiaDampK * 0.7 * dt);
@@ -640,12 +1707,171 @@ export class VirtualScrollView extends cc.Component {
 
     this._velocity += a * dt;
     if (Math.abs(this._velocity) < this.velocitySnap && a === 0) this._velocity = 0;
+    if (this._snapTarget !== null && Math.abs(this._velocity) < this.velocitySnap && Math.abs(pos - this._snapTarget) < 1) {
+      this._velocity = 0;
+      this._setContentMainPos(this._snapTarget);
+      this._snapTarget = null;
+      if (this.useVirtualList) this._updateVisible(false);
+      this._onScrollPositionChanged();
+      this._updateCurrentPage();
+      this._endInertia();
+      return;
+    }
     if (this._velocity !== 0) {
       pos += this._velocity * dt;
       if (this.pixelAlign) pos = Math.round(pos);
       this._setContentMainPos(pos);
       if (this.useVirtualList) this._updateVisible(false);
+      this._onScrollPositionChanged();
+    } else if (this._isScrolling && this._wheelHoldTime <= 0) {
+      this._endInertia();
+    }
+  }
+
+  /** 外层同方向的 VirtualScrollView，用于滚动传递 */
+  private _getChainParent(): VirtualScrollView | null {
+    for (let n = this.node.parent; n; n = n.parent) {
+      const view = n.getComponent(VirtualScrollView);
+      if (view && view.enabledInHierarchy && view.direction === this.direction) return view;
+    }
+    return null;
+  }
+
+  /**
+   * 滚动传递：本列表在边界内消化位移，超出边界的部分交给外层列表
+   * @returns 本列表实际应移动的距离
+   */
+  private _chainDelta(pos: number, delta: number): number {
+    if (!this.scrollChaining || this._isLooping() || delta === 0 || pos !== this._clampToBounds(pos)) return delta;
+    const next = this._clampToBounds(pos + delta);
+    const remaining = pos + delta - next;
+    if (remaining === 0) return delta;
+    // 启用了下拉刷新/上拉加载的一端保留越界拖动
+    const atStart = this._isVertical() ? remaining < 0 : remaining > 0;
+    if (atStart ? this.enablePullRefresh : this.enableLoadMore && this._hasMore) return delta;
+    const parent = this._getChainParent();
+    if (!parent) return delta;
+    parent._applyChainedDelta(remaining);
+    return next - pos;
+  }
+
+  /** 接收内层列表传来的拖动位移，外层到达边界后继续向外传递，不越界 */
+  private _applyChainedDelta(delta: number) {
+    if (this._scrollTween) {
+      this._scrollTween.stop();
+      this._scrollTween = null;
+    }
+    this._snapTarget = null;
+    this._wheelTarget = null;
+    const pos = this._getContentMainPos();
+    let next = this._clampToBounds(pos + this._chainDelta(pos, delta));
+    if (this.pixelAlign) next = Math.round(next);
+    if (next === pos) return;
+    this._setContentMainPos(next);
+    // 记入速度采样，松手时（触摸事件会冒泡到外层）按传递来的拖动产生惯性
+    this._velSamples.push({ t: performance.now() / 1000, delta: next - pos });
+    if (this.useVirtualList) this._updateVisible(false);
+    this._onScrollPositionChanged();
+  }
+
+  /** 惯性滚动越过边界时，把剩余速度交给外层列表，本列表停在边界 */
+  private _chainFling(pos: number, minBound: number, maxBound: number): boolean {
+    if (!this.scrollChaining || this._isLooping() || this._snapTarget !== null) return false;
+    if (this._isRefreshing || this._isLoadingMore) return false;
+    const outward = (pos < minBound && this._velocity < 0) || (pos > maxBound && this._velocity > 0);
+    if (!outward) return false;
+    const atStart = this._isVertical() ? pos < minBound : pos > maxBound;
+    if (atStart ? this.enablePullRefresh : this.enableLoadMore && this._hasMore) return false;
+    const parent = this._getChainParent();
+    if (!parent) return false;
+    parent._receiveChainedFling(this._velocity);
+    this._velocity = 0;
+    this._setContentMainPos(clamp(pos, minBound, maxBound));
+    if (this.useVirtualList) this._updateVisible(false);
+    this._onScrollPositionChanged();
+    this._endInertia();
+    return true;
+  }
+
+  private _receiveChainedFling(velocity: number) {
+    if (this._isTouching) return;
+    if (this._scrollTween) {
+      this._scrollTween.stop();
+      this._scrollTween = null;
+    }
+    this._snapTarget = null;
+    this._wheelTarget = null;
+    this._velocity = clamp(velocity, -this.maxVelocity, this.maxVelocity);
+  }
+
+  /** 越界回弹开始时派发一次 bounce 事件 */
+  private _emitBounce(atStart: boolean) {
+    if (this._bounceEmitted || this._isTouching) return;
+    this._bounceEmitted = true;
+    this._emit(atStart ? VScrollViewEvent.BOUNCE_TOP : VScrollViewEvent.BOUNCE_BOTTOM);
+  }
+
+  /** 滚动位置变化后的统一处理：聊天模式跟随状态与 scrolling 事件 */
+  private _onScrollPositionChanged() {
+    if (!this._isScrolling) {
+      this._isScrolling = true;
+      this._emit(VScrollViewEvent.SCROLL_BEGAN);
+    }
+    // 列表滚动超过点击判定距离后，按住的子项不再触发长按
+    if (this._pressedItem && Math.abs(this._getContentMainPos() - this._touchDownContentPos) > this.clickThreshold) {
+      this._pressedItem.cancelLongPress();
+    }
+    this._updateStickState();
+    this._emit(VScrollViewEvent.SCROLLING, this._getScrollOffset(), this._velocity);
+    this._updatePrefetchRange();
+  }
+
+  /** 按当前速度预测即将进入视口的索引范围，范围移动时通知 */
+  private _updatePrefetchRange() {
+    if (!this.useVirtualList || this.totalCount === 0 || this.prefetchScreens <= 0) return;
+    if (!this.onPrefetchRangeFn && !this._hasListener(VScrollViewEvent.PREFETCH_RANGE_CHANGED)) return;
+    const velocity = this._getOffsetVelocity();
+    // 预取距离取惯性滑行的预计距离，不超过配置的屏数
+    let length = Math.min(Math.abs(velocity) / Math.max(this.inertiaDampK, 0.1), this.prefetchScreens * this._viewportSize);
+    if (length < 1) return;
+    const viewStart = this._getScrollOffset() - this._getLeadingOffset();
+    let start = velocity > 0 ? viewStart + this._viewportSize : viewStart - length;
+    if (!this._isLooping()) {
+      const end = Math.min(start + length, this._contentSize);
+      start = Math.max(0, start);
+      if (end <= start) return;
+      length = end - start;
+    }
+    const range = this._getIndexRangeAt(start, length);
+    if (range.start === this._lastPrefetchStart && range.end === this._lastPrefetchEnd) return;
+    this._lastPrefetchStart = range.start;
+    this._lastPrefetchEnd = range.end;
+    if (this.onPrefetchRangeFn) this.onPrefetchRangeFn(range.start, range.end);
+    this._emit(VScrollViewEvent.PREFETCH_RANGE_CHANGED, range.start, range.end);
+  }
+
+  /** 沿滚动偏移方向的当前速度，拖动中按最近的位移采样估算 */
+  private _getOffsetVelocity(): number {
+    let velocity = this._velocity;
+    const samples = this._velSamples;
+    if (this._isTouching && samples.length >= 2) {
+      let sum = 0;
+      for (let i = 1; i < samples.length; i++) sum += samples[i].delta;
+      const dt = samples[samples.length - 1].t - samples[0].t;
+      velocity = dt > 0.001 ? sum / dt : 0;
     }
+    return this._isVertical() ? velocity : -velocity;
+  }
+
+  private _endInertia() {
+    this._emit(VScrollViewEvent.INERTIA_ENDED);
+    this._endScrolling();
+  }
+
+  private _endScrolling() {
+    if (!this._isScrolling) return;
+    this._isScrolling = false;
+    this._emit(VScrollViewEvent.SCROLL_ENDED);
   }
 
   public updateItemHeight(index: number, newSize?: number) {
@@ -669,12 +1895,64 @@ export class VirtualScrollView extends cc.Component {
     if (this._itemSizes[index] === size) return;
     this._itemSizes[index] = size;
     this._rebuildPrefixSumFrom(index);
+    if (this.chatMode && this._stickToEnd) this._pinToEnd();
     this._updateVisible(true);
   }
 
+  /** 记录渲染后需要测量尺寸的节点，在之后的帧统一测量 */
+  private _queueMeasure(node: cc.Node, index: number) {
+    this._measureQueue.set(node, { index, frame: cc.director.getTotalFrames() });
+  }
+
+  /**
+   * 测量上一帧及更早渲染的节点（有 getItemHeightFn 时改为取它的返回值），尺寸变化一次性应用，
+   * 并平移内容使视口起点所在的数据项保持不动（聊天模式跟随末尾时保持在末尾）
+   */
+  private _flushMeasurements() {
+    if (this._measureQueue.size === 0 || !this.useDynamicSize || !this.content) return;
+    const frame = cc.director.getTotalFrames();
+    const heightFn = this.getItemHeightFn;
+    let minIndex = this.totalCount;
+    this._measureQueue.forEach((entry, node) => {
+      // 本帧渲染的节点尺寸可能还未更新；getItemHeightFn 给出的尺寸不依赖渲染，无需等待
+      if (!heightFn && entry.frame >= frame) return;
+      this._measureQueue.delete(node);
+      if (!cc.isValid(node) || this._getShownIndex(node) !== entry.index) return;
+      if (!heightFn && this._placeholderNodes.has(node)) return;
+      const size = heightFn ? heightFn(entry.index) : this._getNodeMainSize(node);
+      if (heightFn ? this._itemSizes[entry.index] === size : Math.abs(this._itemSizes[entry.index] - size) <= 1) return;
+      this._itemSizes[entry.index] = size;
+      minIndex = Math.min(minIndex, entry.index);
+    });
+    if (minIndex >= this.totalCount) return;
+    const anchor = this._captureAnchor();
+    const anchorIdx = anchor.cycle * this.totalCount + anchor.index;
+    const before = this._getVirtualItemStart(anchorIdx) + this._getLeadingOffset();
+    this._rebuildPrefixSumFrom(minIndex);
+    if (this.chatMode && this._stickToEnd) {
+      this._pinToEnd();
+    } else {
+      const shift = this._getVirtualItemStart(anchorIdx) + this._getLeadingOffset() - before;
+      if (shift !== 0) {
+        this._setContentMainPos(this._getContentMainPos() + this._offsetToContentPos(shift));
+        if (this._snapTarget !== null) this._snapTarget += this._offsetToContentPos(shift);
+        if (this._wheelTarget !== null) this._wheelTarget += this._offsetToContentPos(shift);
+      }
+    }
+    // 只重新摆放，不重新渲染已显示的子项
+    this._updateVisibleSlots(false);
+    this._layoutSlots(this._slotFirstIndex, false);
+    this._updateSectionHeaders(true);
+    this._applyItemTransforms();
+    this._checkVisibleRangeChanged();
+  }
+
   private _rebuildPrefixSumFrom(startIndex: number) {
-    if (startIndex === 0) {
+    // 多列排布中一项尺寸变化会影响所在行高或其后所有项的列分配，整体重排
+    if (startIndex === 0 || this._sectionCounts.length > 0 || this._isMultiColumnDynamic() || this._hasCustomLayout()) {
       this._buildPrefixSum();
+      // 重排后同时可见的项可能变多
+      if (this._isMultiColumnDynamic() && this._slots > 0) this._expandSlotsIfNeeded();
       return;
     }
     let acc = this._prefixPositions[startIndex - 1] + this._itemSizes[startIndex - 1] + this.spacing;
@@ -712,26 +1990,39 @@ export class VirtualScrollView extends cc.Component {
     }
     if (!hasChange) return;
     this._rebuildPrefixSumFrom(minIndex);
+    if (this.chatMode && this._stickToEnd) this._pinToEnd();
     this._updateVisible(true);
   }
 
-  public refreshList(data: any[] | number) {
+  /**
+   * @param data 新数据或总条数
+   * @param sections 分组时一并传入新的每组条目数（同 setSections），不传则沿用原分组
+   */
+  public refreshList(data: any[] | number, sections?: number[]) {
     if (!this.useVirtualList) {
       console.warn('[VirtualScrollView] 简单滚动模式不支持 refreshList');
       return;
     }
-    if (typeof data === 'number') this.setTotalCount(data);
-    else this.setTotalCount(data.length);
+    if (typeof data === 'number') this.setTotalCount(data, sections);
+    else this.setTotalCount(data.length, sections);
   }
 
-  public setTotalCount(count: number) {
+  /**
+   * @param count 总条数
+   * @param sections 分组时一并传入新的每组条目数（同 setSections），不传则沿用原分组
+   */
+  public setTotalCount(count: number, sections?: number[]) {
     this._getContentNode();
     if (!this.useVirtualList) {
       console.warn('[VScrollView] 非虚拟列表模式，不支持 setTotalCount');
       return;
     }
+    this._dataKeys = null;
+    this._resetSwipes(0);
     const oldCount = this.totalCount;
     this.totalCount = Math.max(0, count | 0);
+    if (sections) this._assignSections(sections);
+    this._validateSections();
     if (this.totalCount > oldCount) {
       for (let i = oldCount; i < this.totalCount; i++) {
         this._needAnimateIndices.add(i);
@@ -741,14 +2032,7 @@ export class VirtualScrollView extends cc.Component {
       const oldLength = this._itemSizes.length;
       if (this.totalCount > oldLength) {
         for (let i = oldLength; i < this.totalCount; i++) {
-          let size = 100;
-          if (this.getItemHeightFn) {
-            size = this.getItemHeightFn(i);
-          } else if (this.getItemTypeIndexFn && this._prefabSizeCache.size > 0) {
-            const typeIndex = this.getItemTypeIndexFn(i);
-            size = this._prefabSizeCache.get(typeIndex) || 100;
-          }
-          this._itemSizes.push(size);
+          this._itemSizes.push(this._getInitialItemSize(i));
         }
       } else if (this.totalCount < oldLength) {
         this._itemSizes.length = this.totalCount;
@@ -759,48 +2043,453 @@ export class VirtualScrollView extends cc.Component {
       this._recomputeContentSize();
     }
     this._slotFirstIndex = clamp(this._slotFirstIndex, 0, Math.max(0, this.totalCount - 1));
-
-    this._layoutSlots(this._slotFirstIndex, true);
+    this._focusedIndex = Math.min(this._focusedIndex, this.totalCount - 1);
+    if (this._selectionAnchor >= this.totalCount) this._selectionAnchor = -1;
+    const selectedCount = this._selectedIndices.size;
+    this._selectedIndices.forEach(i => {
+      if (i >= this.totalCount) this._selectedIndices.delete(i);
+    });
+    if (this.totalCount > oldCount) this._onItemsAppended(this.totalCount - oldCount);
     this._updateVisible(true);
+    if (this._selectedIndices.size !== selectedCount) this._notifySelectionChanged();
   }
 
-  private _expandSlotsIfNeeded() {
-    let neededSlots = 0;
-    let pos = 0;
-    const endPos = this._viewportSize;
-    for (let i = 0; i < this.totalCount; i++) {
-      if (pos >= endPos) break;
-      neededSlots++;
-      pos += this._itemSizes[i] + this.spacing;
+  /**
+   * 按 key 增量更新列表：只重新渲染数据发生变化的槽位，
+   * 尺寸、出现动画等按索引存放的状态会跟随 key 迁移到新索引
+   * @param newData 新的完整数据
+   * @param keyFn 提取数据唯一 key
+   * @param isSameFn 判断同 key 数据是否未变更，默认按引用比较
+   * @param sections 分组时一并传入新的每组条目数（同 setSections），不传则沿用原分组
+   */
+  public applyData(newData: any[], keyFn: DataKeyFn, isSameFn?: IsSameDataFn, sections?: number[]): DataDiffResult | null {
+    this._getContentNode();
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 applyData');
+      return null;
     }
-    neededSlots += this.buffer * 2 + 4;
-    const minSlots = Math.ceil(this._viewportSize / 80) + this.buffer * 2;
-    neededSlots = Math.max(neededSlots, minSlots);
-    const maxSlots = Math.ceil(this._viewportSize / 50) + this.buffer * 4;
-    neededSlots = Math.min(neededSlots, maxSlots);
-    if (neededSlots > this._slots) {
-      const oldSlots = this._slots;
-      this._slots = neededSlots;
-      for (let i = oldSlots; i < this._slots; i++) {
-        this._slotNodes.push(null);
-        this._slotPrefabIndices.push(-1);
-      }
-      console.log(`[VScrollView] 槽位扩展: ${oldSlots} -> ${this._slots} (总数据: ${this.totalCount})`);
+    const newKeys = newData.map((item, i) => keyFn(item, i));
+    if (!this._dataKeys) {
+      // 没有快照时退化为整表刷新
+      this.setTotalCount(newData.length, sections);
+      this._dataKeys = newKeys;
+      this._dataSnapshot = newData.slice();
+      return { inserted: newKeys.map((_, i) => i), removed: [], moved: [], changed: [] };
     }
-  }
 
-  private _scrollToPosition(targetPos: number, animate = false) {
-    targetPos = clamp(targetPos, this._boundsMin, this._boundsMax);
-    if (this._scrollTween) {
-      this._scrollTween.stop();
-      this._scrollTween = null;
+    const oldCount = this.totalCount;
+    const { result, oldIndexOf, newIndexOf } = diffKeyedData(
+      this._dataKeys,
+      newKeys,
+      this._dataSnapshot,
+      newData,
+      isSameFn || ((a, b) => a === b)
+    );
+    this._dataKeys = newKeys;
+    this._dataSnapshot = newData.slice();
+    if (result.inserted.length === 0 && result.removed.length === 0 && result.moved.length === 0 && result.changed.length === 0) {
+      return result;
     }
-    this._velocity = 0;
-    this._isTouching = false;
-    this._velSamples.length = 0;
-    if (!animate) {
-      this._setContentMainPos(this.pixelAlign ? Math.round(targetPos) : targetPos);
-      this._updateVisible(true);
+    const changedSet = new Set(result.changed);
+
+    // 按索引存放的状态跟随 key 迁移
+    const oldAnimate = this._needAnimateIndices;
+    this._needAnimateIndices = new Set();
+    oldAnimate.forEach(oldIdx => {
+      if (oldIdx < oldCount && newIndexOf[oldIdx] >= 0) this._needAnimateIndices.add(newIndexOf[oldIdx]);
+    });
+    for (const i of result.inserted) this._needAnimateIndices.add(i);
+    if (this._focusedIndex >= 0) this._focusedIndex = this._focusedIndex < oldCount ? newIndexOf[this._focusedIndex] : -1;
+    const oldSelected = this._selectedIndices;
+    this._selectedIndices = new Set();
+    oldSelected.forEach(oldIdx => {
+      if (oldIdx < oldCount && newIndexOf[oldIdx] >= 0) this._selectedIndices.add(newIndexOf[oldIdx]);
+    });
+    if (this._selectionAnchor >= 0) this._selectionAnchor = this._selectionAnchor < oldCount ? newIndexOf[this._selectionAnchor] : -1;
+    const selectionChanged = this._selectedIndices.size !== oldSelected.size;
+
+    this.totalCount = newData.length;
+    if (sections) this._assignSections(sections);
+    this._validateSections();
+    if (this.useDynamicSize) {
+      const oldSizes = this._itemSizes;
+      this._itemSizes = new Array(this.totalCount);
+      for (let i = 0; i < this.totalCount; i++) {
+        const oldIdx = oldIndexOf[i];
+        if (oldIdx < 0 || oldSizes[oldIdx] === undefined) this._itemSizes[i] = this._getInitialItemSize(i);
+        else if (changedSet.has(i) && this.getItemHeightFn) this._itemSizes[i] = this.getItemHeightFn(i);
+        else this._itemSizes[i] = oldSizes[oldIdx];
+      }
+      this._buildPrefixSum();
+      if (this.totalCount > oldCount) this._expandSlotsIfNeeded();
+    } else {
+      this._recomputeContentSize();
+    }
+
+    if (this.chatMode) {
+      let lastKept = -1;
+      for (let i = this.totalCount - 1; i >= 0; i--) {
+        if (oldIndexOf[i] >= 0) {
+          lastKept = i;
+          break;
+        }
+      }
+      this._onItemsAppended(this.totalCount - 1 - lastKept);
+      if (this._stickToEnd) this._pinToEnd();
+    }
+
+    if (this._isLooping()) {
+      // 循环模式下槽位与数据不是一一对应，直接整体刷新
+      this._resetSwipes(0);
+      this._updateVisible(true);
+      if (selectionChanged) this._notifySelectionChanged();
+      return result;
+    }
+
+    // 数据未变的节点按 key 找回原来的槽位，只需重新定位
+    const oldFirst = this._slotFirstIndex;
+    const reusableSlotOf = new Map<number, number>(); // 新索引 -> 旧槽位
+    for (let s = 0; s < this._slots; s++) {
+      const oldIdx = oldFirst + s;
+      if (oldIdx >= oldCount || !this._slotNodes[s] || !this._slotNodes[s].active) continue;
+      const newIdx = newIndexOf[oldIdx];
+      if (newIdx >= 0 && !changedSet.has(newIdx)) reusableSlotOf.set(newIdx, s);
+      else this._resetSwipes(oldIdx, oldIdx);
+    }
+    const newFirst = this._calcFirstIndex();
+    const oldNodes = this._slotNodes.slice();
+    const oldPrefabIndices = this._slotPrefabIndices.slice();
+    const claimed: boolean[] = new Array(this._slots).fill(false);
+    const plan: number[] = new Array(this._slots).fill(-1);
+    for (let s = 0; s < this._slots; s++) {
+      const oldSlot = reusableSlotOf.get(newFirst + s);
+      if (oldSlot !== undefined) {
+        plan[s] = oldSlot;
+        claimed[oldSlot] = true;
+      }
+    }
+    let free = 0;
+    for (let s = 0; s < this._slots; s++) {
+      if (plan[s] >= 0) continue;
+      while (claimed[free]) free++;
+      plan[s] = free;
+      claimed[free] = true;
+    }
+    for (let s = 0; s < this._slots; s++) {
+      this._slotNodes[s] = oldNodes[plan[s]];
+      if (this._slotPrefabIndices.length > 0) this._slotPrefabIndices[s] = oldPrefabIndices[plan[s]];
+    }
+    this._slotFirstIndex = newFirst;
+    for (let s = 0; s < this._slots; s++) {
+      const idx = newFirst + s;
+      const node = this._slotNodes[s];
+      if (idx >= this.totalCount) {
+        this._hideSlotNode(node);
+      } else {
+        this._layoutSingleSlot(node, idx, s, !reusableSlotOf.has(idx));
+      }
+    }
+    this._updateSectionHeaders(true);
+    if (selectionChanged) this._notifySelectionChanged();
+    return result;
+  }
+
+  /**
+   * 在 index 处插入 count 条数据，当前正在查看的项保持在屏幕上的位置不变
+   */
+  public insertItems(index: number, count: number = 1) {
+    this._getContentNode();
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 insertItems');
+      return;
+    }
+    index = clamp(index | 0, 0, this.totalCount);
+    count = count | 0;
+    if (count <= 0) return;
+    this._resetSwipes(index);
+    const anchor = this._captureAnchor();
+    this.totalCount += count;
+    if (this._sectionCounts.length > 0) {
+      // 插入到 index 所在的分组，插在末尾时归入最后一组
+      const section = index < this.totalCount - count ? this.getSectionOfIndex(index) : this._sectionCounts.length - 1;
+      this._sectionCounts[section] += count;
+      this._rebuildSectionIndex();
+    }
+    this._needAnimateIndices = spliceIndexSet(this._needAnimateIndices, index, 0, count);
+    if (this._focusedIndex >= index) this._focusedIndex += count;
+    this._selectedIndices = spliceIndexSet(this._selectedIndices, index, 0, count);
+    if (this._selectionAnchor >= index) this._selectionAnchor += count;
+    for (let i = index; i < index + count; i++) this._needAnimateIndices.add(i);
+    if (this._dataKeys) {
+      // 新插入的项没有 key，下次 applyData 时按新增处理
+      insertFill(this._dataKeys, index, count, undefined);
+      insertFill(this._dataSnapshot, index, count, undefined);
+    }
+    if (this.useDynamicSize) {
+      insertFill(this._itemSizes, index, count, 0);
+      for (let i = index; i < index + count; i++) this._itemSizes[i] = this._getInitialItemSize(i);
+      insertFill(this._prefixPositions, index, count, 0);
+      this._rebuildPrefixSumFrom(index);
+      this._expandSlotsIfNeeded();
+    } else {
+      this._recomputeContentSize();
+    }
+    if (this.chatMode) {
+      if (index === this.totalCount - count) this._onItemsAppended(count);
+      if (this._stickToEnd) {
+        // 跟随最新消息时以底部为锚点，插入历史消息也不会移动可见内容
+        this._pinToEnd();
+        this._updateVisible(true);
+        return;
+      }
+    }
+    if (anchor.index >= index) anchor.index += count;
+    this._restoreAnchor(anchor);
+  }
+
+  /**
+   * 在列表头部插入 count 条数据（例如聊天模式加载更早的历史消息），可见内容不会移动
+   */
+  public prependItems(count: number) {
+    this.insertItems(0, count);
+  }
+
+  /**
+   * 从 index 处删除 count 条数据，当前正在查看的项保持在屏幕上的位置不变
+   * 分组模式下，条目被全部删除的分组连同分组头一起移除，其后分组的索引前移，并派发 SECTIONS_REMOVED 事件
+   */
+  public removeItems(index: number, count: number = 1) {
+    this._getContentNode();
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 removeItems');
+      return;
+    }
+    index = index | 0;
+    if (index < 0 || index >= this.totalCount) {
+      console.warn(`[VScrollView] 索引 ${index} 超出范围`);
+      return;
+    }
+    count = Math.min(count | 0, this.totalCount - index);
+    if (count <= 0) return;
+    this._resetSwipes(index);
+    const anchor = this._captureAnchor();
+    const removedSections: number[] = [];
+    for (let s = 0; s < this._sectionCounts.length; s++) {
+      const first = this._sectionFirstIndex[s];
+      const overlap = Math.min(first + this._sectionCounts[s], index + count) - Math.max(first, index);
+      if (overlap <= 0) continue;
+      this._sectionCounts[s] -= overlap;
+      if (this._sectionCounts[s] === 0) removedSections.push(s);
+    }
+    if (removedSections.length > 0) {
+      // 分组头按分组索引缓存，索引前移后全部回收，由 _restoreAnchor 重新创建
+      this._clearSectionHeaders();
+      this._sectionCounts = this._sectionCounts.filter((_, s) => removedSections.indexOf(s) < 0);
+    }
+    this._rebuildSectionIndex();
+    this.totalCount -= count;
+    this._needAnimateIndices = spliceIndexSet(this._needAnimateIndices, index, count, 0);
+    if (this._focusedIndex >= index + count) this._focusedIndex -= count;
+    // 焦点项被删除时移到其后的项
+    else if (this._focusedIndex >= index) this._focusedIndex = Math.min(index, this.totalCount - 1);
+    const selectedCount = this._selectedIndices.size;
+    this._selectedIndices = spliceIndexSet(this._selectedIndices, index, count, 0);
+    if (this._selectionAnchor >= index + count) this._selectionAnchor -= count;
+    else if (this._selectionAnchor >= index) this._selectionAnchor = -1;
+    if (this._dataKeys) {
+      this._dataKeys.splice(index, count);
+      this._dataSnapshot.splice(index, count);
+    }
+    if (this.useDynamicSize) {
+      this._itemSizes.splice(index, count);
+      this._prefixPositions.splice(index, count);
+      this._rebuildPrefixSumFrom(index);
+    } else {
+      this._recomputeContentSize();
+    }
+    if (anchor.index >= index + count) {
+      anchor.index -= count;
+    } else if (anchor.index >= index) {
+      // 锚点项被删除，由其后的项顶替
+      anchor.index = index;
+      anchor.offset = 0;
+    }
+    this._restoreAnchor(anchor);
+    if (this._selectedIndices.size !== selectedCount) this._notifySelectionChanged();
+    if (removedSections.length > 0) this._emit(VScrollViewEvent.SECTIONS_REMOVED, removedSections);
+  }
+
+  /** 聊天模式：有新数据追加到尾部时，跟随状态下贴到底部，否则累计新消息数 */
+  private _onItemsAppended(count: number) {
+    if (!this.chatMode || count <= 0) return;
+    if (this._stickToEnd) {
+      this._pinToEnd();
+      return;
+    }
+    this._newMessageCount += count;
+    if (this.onNewMessageCountChangeFn) this.onNewMessageCountChangeFn(this._newMessageCount);
+    this._emit(VScrollViewEvent.NEW_MESSAGE_COUNT_CHANGED, this._newMessageCount);
+  }
+
+  /** 直接定位到列表末尾（不刷新槽位，由调用方负责） */
+  private _pinToEnd() {
+    if (this._scrollTween) {
+      this._scrollTween.stop();
+      this._scrollTween = null;
+    }
+    this._snapTarget = null;
+    this._wheelTarget = null;
+    this._velocity = 0;
+    this._setContentMainPos(this._isVertical() ? this._boundsMax : this._boundsMin);
+  }
+
+  private _isAtEnd(): boolean {
+    const pos = this._getContentMainPos();
+    return this._isVertical() ? pos >= this._boundsMax - 1 : pos <= this._boundsMin + 1;
+  }
+
+  /** 聊天模式：根据用户滚动更新跟随状态 */
+  private _updateStickState() {
+    if (!this.chatMode) return;
+    const atEnd = this._isAtEnd();
+    if (atEnd === this._stickToEnd) return;
+    this._stickToEnd = atEnd;
+    if (atEnd && this._newMessageCount > 0) {
+      this._newMessageCount = 0;
+      if (this.onNewMessageCountChangeFn) this.onNewMessageCountChangeFn(0);
+      this._emit(VScrollViewEvent.NEW_MESSAGE_COUNT_CHANGED, 0);
+    }
+  }
+
+  /** 聊天模式：停止跟随后收到的新消息数 */
+  public getNewMessageCount(): number {
+    return this._newMessageCount;
+  }
+
+  /** 聊天模式：内容不足一屏时，首项前留出的空白 */
+  private _getLeadingOffset(): number {
+    if (!this.chatMode || this._isLooping()) return 0;
+    return Math.max(0, this._viewportSize - this._contentSize);
+  }
+
+  /** 记录视口起点所在的数据项及其内部偏移 */
+  private _captureAnchor(): { index: number; offset: number; cycle: number } {
+    let offset = this._getScrollOffset();
+    let cycle = 0;
+    if (this._isLooping()) {
+      cycle = Math.floor(offset / this._getLoopCycleSize());
+      offset -= cycle * this._getLoopCycleSize();
+    }
+    const index = this._offsetToIndex(offset);
+    return { index, offset: offset - this._getItemStartPos(index), cycle };
+  }
+
+  private _restoreAnchor(anchor: { index: number; offset: number; cycle: number }) {
+    if (this._scrollTween) {
+      this._scrollTween.stop();
+      this._scrollTween = null;
+    }
+    this._snapTarget = null;
+    this._wheelTarget = null;
+    let offset = 0;
+    if (this.totalCount > 0) {
+      const index = clamp(anchor.index, 0, this.totalCount - 1);
+      offset = this._getItemStartPos(index) + anchor.offset;
+      if (this._isLooping()) offset += anchor.cycle * this._getLoopCycleSize();
+    }
+    this._setContentMainPos(this._clampToBounds(this._offsetToContentPos(offset)));
+    this._updateVisible(true);
+  }
+
+  private _getInitialItemSize(index: number): number {
+    if (this.getItemHeightFn) return this.getItemHeightFn(index);
+    if (this.getItemTypeIndexFn && this._prefabSizeCache.size > 0) {
+      return this._prefabSizeCache.get(this.getItemTypeIndexFn(index)) || 100;
+    }
+    return 100;
+  }
+
+  private _expandSlotsIfNeeded() {
+    if (this._hasCustomLayout()) {
+      this._appendSlots(this._getLayoutSlotCount());
+      return;
+    }
+    let neededSlots = 0;
+    let pos = 0;
+    const endPos = this._viewportSize;
+    for (let i = 0; i < this.totalCount; i++) {
+      if (pos >= endPos) break;
+      neededSlots++;
+      pos += this._itemSizes[i] + this.spacing;
+    }
+    neededSlots += this.buffer * 2 + 4;
+    const minSlots = Math.ceil(this._viewportSize / 80) + this.buffer * 2;
+    neededSlots = Math.max(neededSlots, minSlots);
+    const maxSlots = Math.ceil(this._viewportSize / 50) + this.buffer * 4;
+    neededSlots = Math.min(neededSlots, maxSlots);
+    if (this._isMultiColumnDynamic()) neededSlots = this._getMultiColumnSlotCount();
+    if (neededSlots > this._slots) {
+      const oldSlots = this._slots;
+      this._slots = neededSlots;
+      for (let i = oldSlots; i < this._slots; i++) {
+        this._slotNodes.push(null);
+        this._slotPrefabIndices.push(-1);
+      }
+      console.log(`[VScrollView] 槽位扩展: ${oldSlots} -> ${this._slots} (总数据: ${this.totalCount})`);
+    }
+  }
+
+  /** 槽位不足时追加，等大小模式按模板创建节点 */
+  private _appendSlots(neededSlots: number) {
+    if (neededSlots <= this._slots) return;
+    const oldSlots = this._slots;
+    if (this.useDynamicSize) {
+      for (let i = oldSlots; i < neededSlots; i++) {
+        this._slotNodes.push(null);
+        this._slotPrefabIndices.push(-1);
+      }
+    } else {
+      if (!this._slotTemplate) return;
+      for (let i = oldSlots; i < neededSlots; i++) {
+        const n = cc.instantiate(this._slotTemplate);
+        n.active = false;
+        n.parent = this.content!;
+        this._slotNodes.push(n);
+      }
+    }
+    this._slots = neededSlots;
+    console.log(`[VScrollView] 槽位扩展: ${oldSlots} -> ${this._slots} (总数据: ${this.totalCount})`);
+  }
+
+  /** 自定义布局所需槽位：最大可见跨度加上两侧缓冲 */
+  private _getLayoutSlotCount(): number {
+    return Math.max(1, this._maxVisibleSpan + this.buffer * 2);
+  }
+
+  /** 多列不等大小所需槽位：最大可见跨度加上两侧缓冲，上限按每列最小 50 像素估算 */
+  private _getMultiColumnSlotCount(): number {
+    const cols = Math.max(1, this.gridCount);
+    const maxSlots = (Math.ceil(this._viewportSize / 50) + this.buffer * 4) * cols;
+    return Math.min(this._maxVisibleSpan + (this.buffer * 2 + 1) * cols, maxSlots);
+  }
+
+  private _scrollToPosition(targetPos: number, animate = false) {
+    targetPos = this._clampToBounds(targetPos);
+    if (this._scrollTween) {
+      this._scrollTween.stop();
+      this._scrollTween = null;
+    }
+    this._snapTarget = null;
+    this._wheelTarget = null;
+    this._velocity = 0;
+    this._isTouching = false;
+    this._velSamples.length = 0;
+    if (!animate) {
+      this._setContentMainPos(this.pixelAlign ? Math.round(targetPos) : targetPos);
+      this._updateVisible(true);
+      this._onScrollPositionChanged();
+      this._endScrolling();
+      this._updateCurrentPage();
     } else {
       const currentPos = this._getContentMainPos();
       const distance = Math.abs(targetPos - currentPos);
@@ -812,13 +2501,19 @@ export class VirtualScrollView extends cc.Component {
           { position: targetVec },
           {
             easing: 'smooth',
-            onUpdate: () => this._updateVisible(false),
+            onUpdate: () => {
+              this._updateVisible(false);
+              this._onScrollPositionChanged();
+            },
           }
         )
         .call(() => {
           this._updateVisible(true);
           this._scrollTween = null;
           this._velocity = 0;
+          this._updateStickState();
+          this._endScrolling();
+          this._updateCurrentPage();
         })
         .start();
     }
@@ -836,18 +2531,113 @@ export class VirtualScrollView extends cc.Component {
 
   public scrollToIndex(index: number, animate = false) {
     index = clamp(index | 0, 0, Math.max(0, this.totalCount - 1));
-    let targetPos = 0;
-    if (this.useDynamicSize) {
-      targetPos = this._prefixPositions[index] || 0;
+    // 横向模式：滚动方向相反，取负值
+    const targetPos = this._offsetToContentPos(this._getIndexScrollOffset(index));
+    this._scrollToPosition(targetPos, animate);
+  }
+
+  /**
+   * 吸附模式：滚动到指定页（按子项吸附时为项索引，整页吸附时为页码）
+   */
+  public scrollToPage(page: number, animate = false) {
+    if (this.snapMode === SnapMode.NONE) {
+      console.warn('[VScrollView] 未开启吸附模式，不支持 scrollToPage');
+      return;
+    }
+    this._scrollToPosition(this._offsetToContentPos(this._getSnapOffset(page | 0)), animate);
+  }
+
+  /** 吸附模式：当前页（按子项吸附时为项索引，整页吸附时为页码） */
+  public getCurrentPage(): number {
+    return this.snapMode === SnapMode.ITEM ? this._wrapIndex(this._currentPage) : this._currentPage;
+  }
+
+  /** 指定页对应的滚动偏移 */
+  private _getSnapOffset(page: number): number {
+    if (this.snapMode === SnapMode.PAGE) return page * this._viewportSize;
+    // 循环模式下 page 为虚拟索引
+    const index = this._isLooping() ? page : clamp(page, 0, Math.max(0, this.totalCount - 1));
+    const size = this._getItemMainSize(this._wrapIndex(index));
+    const start = this._getVirtualItemStart(index);
+    if (this.snapAlign === SnapAlign.CENTER) return start + (size - this._viewportSize) / 2;
+    if (this.snapAlign === SnapAlign.END) return start + size - this._viewportSize;
+    return start;
+  }
+
+  /** 距离滚动偏移最近的页 */
+  private _findNearestPage(offset: number): number {
+    if (this.snapMode === SnapMode.PAGE) {
+      const page = Math.round(offset / Math.max(1, this._viewportSize));
+      if (this._isLooping()) return page;
+      const pageCount = Math.max(1, Math.ceil(this._contentSize / Math.max(1, this._viewportSize)));
+      return clamp(page, 0, pageCount - 1);
+    }
+    let ref = offset;
+    if (this.snapAlign === SnapAlign.CENTER) ref += this._viewportSize / 2;
+    else if (this.snapAlign === SnapAlign.END) ref += this._viewportSize;
+    const step = this._getGridColumns();
+    let index: number;
+    let next: number;
+    if (this._isLooping()) {
+      index = this._offsetToVirtualIndex(ref);
+      next = index + step;
     } else {
-      const line = Math.floor(index / this.gridCount);
-      targetPos = line * (this.itemMainSize + this.spacing);
+      index = this._offsetToIndex(ref);
+      next = Math.min(index + step, Math.max(0, this.totalCount - 1));
     }
-    // 横向模式：滚动方向相反，取负值
-    if (!this._isVertical()) {
-      targetPos = -targetPos;
+    const dCur = Math.abs(this._getSnapOffset(index) - offset);
+    const dNext = Math.abs(this._getSnapOffset(next) - offset);
+    return dNext < dCur ? next : index;
+  }
+
+  /** 根据松手速度预测惯性停止位置，选出吸附目标 */
+  private _chooseSnapTarget(velocity: number): number {
+    const k = Math.max(this.inertiaDampK, 0.1);
+    const offsetVelocity = this._isVertical() ? velocity : -velocity;
+    const offset = this._getScrollOffset();
+    let page = this._findNearestPage(offset + offsetVelocity / k);
+    if (this.maxPagesPerFling > 0) {
+      // 以松手位置最近的页为基准：_currentPage 拖动过程中不更新，慢慢拖过几页后不应被拉回
+      const releasePage = this._findNearestPage(offset);
+      const step = this.snapMode === SnapMode.ITEM ? this._getGridColumns() : 1;
+      const limit = this.maxPagesPerFling * step;
+      page = clamp(page, releasePage - limit, releasePage + limit);
     }
-    this._scrollToPosition(targetPos, animate);
+    return this._clampToBounds(this._offsetToContentPos(this._getSnapOffset(page)));
+  }
+
+  private _updateCurrentPage() {
+    if (this.snapMode === SnapMode.NONE) return;
+    const page = this._findNearestPage(this._getScrollOffset());
+    if (page === this._currentPage) return;
+    this._currentPage = page;
+    if (this.onPageChangedFn) this.onPageChangedFn(this.getCurrentPage());
+    this._emit(VScrollViewEvent.PAGE_CHANGED, this.getCurrentPage());
+  }
+
+  /** 当前滚动偏移（沿主方向从列表起点算起） */
+  public getScrollOffset(): number {
+    return this._getScrollOffset();
+  }
+
+  /** 最大滚动偏移，内容不足一屏时为 0 */
+  public getMaxScrollOffset(): number {
+    return this._boundsMax - this._boundsMin;
+  }
+
+  /** 视口在主方向上的尺寸 */
+  public getViewportSize(): number {
+    return this._viewportSize;
+  }
+
+  /** 内容在主方向上的总尺寸 */
+  public getContentMainSize(): number {
+    return this._contentSize;
+  }
+
+  /** 直接跳转到指定滚动偏移（无动画，适合拖动滚动条等高频定位） */
+  public flashToOffset(offset: number) {
+    this._flashToPosition(this._offsetToContentPos(offset));
   }
 
   public onOffSortLayer(onoff: boolean) {
@@ -866,16 +2656,21 @@ export class VirtualScrollView extends cc.Component {
   }
 
   private _flashToPosition(targetPos: number) {
-    targetPos = clamp(targetPos, this._boundsMin, this._boundsMax);
+    targetPos = this._clampToBounds(targetPos);
     if (this._scrollTween) {
       this._scrollTween.stop();
       this._scrollTween = null;
     }
+    this._snapTarget = null;
+    this._wheelTarget = null;
     this._velocity = 0;
     this._isTouching = false;
     this._velSamples.length = 0;
     this._setContentMainPos(this.pixelAlign ? Math.round(targetPos) : targetPos);
     this._updateVisible(true);
+    this._onScrollPositionChanged();
+    this._endScrolling();
+    this._updateCurrentPage();
   }
 
   public flashToTop() {
@@ -883,43 +2678,640 @@ export class VirtualScrollView extends cc.Component {
     this._flashToPosition(target);
   }
 
-  public flashToBottom() {
-    const target = this._isVertical() ? this._boundsMax : this._boundsMin;
-    this._flashToPosition(target);
+  public flashToBottom() {
+    const target = this._isVertical() ? this._boundsMax : this._boundsMin;
+    this._flashToPosition(target);
+  }
+  public flashToIndex(index: number) {
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 flashToIndex');
+      return;
+    }
+    index = clamp(index | 0, 0, Math.max(0, this.totalCount - 1));
+    this._flashToPosition(this._offsetToContentPos(this._getIndexScrollOffset(index)));
+  }
+
+  /**
+   * 保存当前滚动位置：记录视口起点所在的数据项（及其 key）和项内偏移
+   * @param includeSizes 不等大小模式下是否一并保存已测量的尺寸，恢复时可减少跳动
+   */
+  public saveState(includeSizes: boolean = false): VScrollViewState {
+    if (!this.useVirtualList || this.totalCount === 0) return { index: 0, offset: this._getScrollOffset() };
+    const anchor = this._captureAnchor();
+    const state: VScrollViewState = { index: anchor.index, offset: anchor.offset };
+    if (anchor.cycle !== 0) state.cycle = anchor.cycle;
+    const key = this._dataKeys ? this._dataKeys[anchor.index] : undefined;
+    if (key !== undefined && key !== null) state.key = key;
+    if (this.chatMode && this._isAtEnd()) state.atEnd = true;
+    if (includeSizes && this.useDynamicSize) state.sizes = this._itemSizes.slice();
+    return state;
+  }
+
+  /**
+   * 恢复 saveState 保存的位置；数据条数、子项尺寸或视口尺寸变化后仍按原数据项和项内偏移定位
+   * 在列表初始化完成前调用时，会在初始化后生效
+   */
+  public restoreState(state: VScrollViewState) {
+    if (!state) return;
+    if (!this.useVirtualList) {
+      this._scrollToPosition(this._offsetToContentPos(state.offset || 0));
+      return;
+    }
+    if (this._slots === 0) {
+      this._pendingState = state;
+      return;
+    }
+    // 有 getItemHeightFn 时以它为准，保存的尺寸只作为未测量项的估计
+    if (state.sizes && this.useDynamicSize && !this.getItemHeightFn) {
+      const count = Math.min(state.sizes.length, this.totalCount);
+      for (let i = 0; i < count; i++) {
+        if (state.sizes[i] > 0) this._itemSizes[i] = state.sizes[i];
+      }
+      this._buildPrefixSum();
+      this._expandSlotsIfNeeded();
+    }
+    if (state.atEnd && this.chatMode) {
+      this._pinToEnd();
+      this._updateVisible(true);
+      this._updateStickState();
+      return;
+    }
+    this._restoreAnchor(resolveStateAnchor(state, this._dataKeys, this.totalCount, i => this._getItemMainSize(i)));
+    this._updateStickState();
+    this._updateCurrentPage();
+  }
+
+  public refreshIndex(index: number) {
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 refreshIndex');
+      return;
+    }
+    // 循环模式下同一条数据可能同时出现在多个槽位
+    for (let s = 0; s < this._slots; s++) {
+      const idx = this._slotFirstIndex + s;
+      if (!this._isIndexInRange(idx) || this._wrapIndex(idx) !== index) continue;
+      const node = this._slotNodes[s];
+      if (node) this._renderItem(node, index);
+    }
+  }
+
+  /**
+   * 选中或取消选中一项；单选模式下选中会替换原有选中项
+   */
+  public selectIndex(index: number, selected: boolean = true) {
+    if (this.selectionMode === SelectionMode.NONE) {
+      console.warn('[VScrollView] 选择模式为 NONE，不支持 selectIndex');
+      return;
+    }
+    index = index | 0;
+    if (index < 0 || index >= this.totalCount) {
+      console.warn(`[VScrollView] 索引 ${index} 超出范围`);
+      return;
+    }
+    const next = this.selectionMode === SelectionMode.SINGLE ? new Set<number>() : new Set(this._selectedIndices);
+    if (selected) next.add(index);
+    else next.delete(index);
+    this._selectionAnchor = index;
+    this._setSelection(next);
+  }
+
+  /** 切换一项的选中状态 */
+  public toggleIndex(index: number) {
+    this.selectIndex(index, !this._selectedIndices.has(index));
+  }
+
+  /**
+   * 多选模式：选中 from 到 to（含两端）之间的所有项，原有选中项保留
+   */
+  public selectRange(from: number, to: number) {
+    if (this.selectionMode !== SelectionMode.MULTI) {
+      this.selectIndex(to);
+      return;
+    }
+    const start = clamp(Math.min(from, to) | 0, 0, this.totalCount - 1);
+    const end = clamp(Math.max(from, to) | 0, 0, this.totalCount - 1);
+    const next = new Set(this._selectedIndices);
+    for (let i = start; i <= end; i++) next.add(i);
+    this._setSelection(next);
+  }
+
+  /** 多选模式：全选 */
+  public selectAll() {
+    if (this.selectionMode !== SelectionMode.MULTI || this.totalCount === 0) return;
+    this.selectRange(0, this.totalCount - 1);
+  }
+
+  /** 取消全部选中 */
+  public deselectAll() {
+    this._selectionAnchor = -1;
+    this._setSelection(new Set());
+  }
+
+  /** 全部选中项的索引（升序）；插入、删除或 applyData 后索引会自动跟随数据调整 */
+  public getSelectedIndices(): number[] {
+    const indices: number[] = [];
+    this._selectedIndices.forEach(i => indices.push(i));
+    return indices.sort((a, b) => a - b);
+  }
+
+  public isIndexSelected(index: number): boolean {
+    return this._selectedIndices.has(index);
+  }
+
+  /** 替换选中集合，只重新渲染状态发生变化的项 */
+  private _setSelection(next: Set<number>) {
+    const changed: number[] = [];
+    this._selectedIndices.forEach(i => {
+      if (!next.has(i)) changed.push(i);
+    });
+    next.forEach(i => {
+      if (!this._selectedIndices.has(i)) changed.push(i);
+    });
+    if (changed.length === 0) return;
+    this._selectedIndices = next;
+    if (this.useVirtualList) changed.forEach(i => this.refreshIndex(i));
+    this._notifySelectionChanged();
+  }
+
+  private _notifySelectionChanged() {
+    const indices = this.getSelectedIndices();
+    if (this.onSelectionChangedFn) this.onSelectionChangedFn(indices);
+    this._emit(VScrollViewEvent.SELECTION_CHANGED, indices);
+  }
+
+  /** 子项被点击（或键盘确认）：先更新选中状态，再通知外部 */
+  private _onItemClicked(node: cc.Node, index: number) {
+    if (this.selectionMode === SelectionMode.SINGLE) {
+      this.selectIndex(index);
+    } else if (this.selectionMode === SelectionMode.MULTI) {
+      if (shiftKey.pressed && this._selectionAnchor >= 0) this.selectRange(this._selectionAnchor, index);
+      else this.toggleIndex(index);
+    }
+    if (this.onItemClickFn) this.onItemClickFn(node, index);
+    this._emit(VScrollViewEvent.ITEM_CLICK, node, index);
+  }
+
+  /**
+   * 将 from 处的数据项移动到 to：尺寸、选中、焦点等按索引存放的状态随之移动，
+   * 调用前外部数据需已完成同样的移动
+   */
+  public moveItem(from: number, to: number) {
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 moveItem');
+      return;
+    }
+    from = from | 0;
+    to = to | 0;
+    if (from < 0 || from >= this.totalCount || to < 0 || to >= this.totalCount) {
+      console.warn(`[VScrollView] 索引 ${from} -> ${to} 超出范围`);
+      return;
+    }
+    if (from === to) return;
+    this._moveItemState(from, to);
+    this._updateVisible(true);
+  }
+
+  private _moveItemState(from: number, to: number) {
+    this._resetSwipes(Math.min(from, to), Math.max(from, to));
+    this._needAnimateIndices = moveIndexSet(this._needAnimateIndices, from, to);
+    this._selectedIndices = moveIndexSet(this._selectedIndices, from, to);
+    if (this._focusedIndex >= 0) this._focusedIndex = moveIndex(this._focusedIndex, from, to);
+    if (this._selectionAnchor >= 0) this._selectionAnchor = moveIndex(this._selectionAnchor, from, to);
+    if (this._dataKeys) {
+      this._dataKeys.splice(to, 0, this._dataKeys.splice(from, 1)[0]);
+      this._dataSnapshot.splice(to, 0, this._dataSnapshot.splice(from, 1)[0]);
+    }
+    if (this.useDynamicSize) {
+      this._itemSizes.splice(to, 0, this._itemSizes.splice(from, 1)[0]);
+      this._rebuildPrefixSumFrom(Math.min(from, to));
+    }
+  }
+
+  /** 长按子项开始拖动排序 */
+  private _beginReorder(node: cc.Node, index: number) {
+    if (!this.enableReorder || this._isLooping() || this._isMultiColumnDynamic() || this._hasCustomLayout()) return;
+    if (this._reorderFrom >= 0) return;
+    if (index < 0 || index >= this.totalCount || this._isRefreshing || this._isLoadingMore) return;
+    // 接管本次触摸，列表不再跟手滚动
+    this._isTouching = false;
+    this._velocity = 0;
+    this._velSamples.length = 0;
+    this._snapTarget = null;
+    this._wheelTarget = null;
+    if (this._scrollTween) {
+      this._scrollTween.stop();
+      this._scrollTween = null;
+    }
+    this._reorderFrom = index;
+    this._reorderTo = index;
+
+    const proxy = cc.instantiate(node);
+    const proxyItem = proxy.getComponent(VScrollViewItem);
+    if (proxyItem) proxyItem.enabled = false;
+    proxy.parent = this.node;
+    proxy.zIndex = cc.macro.MAX_ZINDEX;
+    proxy.setScale(1.05, 1.05);
+    const worldPos = node.convertToWorldSpaceAR(cc.Vec2.ZERO);
+    const proxyPos = this.node.convertToNodeSpaceAR(worldPos);
+    proxy.setPosition(proxyPos);
+    const touchPos = this.node.convertToNodeSpaceAR(this._touchLocation);
+    this._reorderGrabOffset.set(proxyPos.sub(touchPos));
+    this._reorderProxy = proxy;
+    this._applyReorderState(node, index);
+  }
+
+  /** 替身节点跟随手指，并根据位置更新空位 */
+  private _updateReorderProxy() {
+    const proxy = this._reorderProxy;
+    if (!proxy) return;
+    const touchPos = this.node.convertToNodeSpaceAR(this._touchLocation);
+    const pos = touchPos.add(this._reorderGrabOffset);
+    // 单列列表只沿主方向移动
+    const freeCross = !this.useDynamicSize && this.gridCount > 1;
+    if (this._isVertical()) proxy.setPosition(freeCross ? pos.x : proxy.x, pos.y);
+    else proxy.setPosition(pos.x, freeCross ? pos.y : proxy.y);
+    this._updateReorderTarget();
+  }
+
+  /** 替身中心所在位置对应的目标索引，分组时限制在原分组内 */
+  private _updateReorderTarget() {
+    const proxy = this._reorderProxy;
+    if (!proxy || !this.content) return;
+    const center = this.content.convertToNodeSpaceAR(proxy.getBoundingBoxToWorld().center);
+    const offset = (this._isVertical() ? -center.y : center.x) - this._getLeadingOffset();
+    let target = this._offsetToIndex(offset);
+    if (!this.useDynamicSize && this.gridCount > 1) {
+      const totalCross = this._getGridCrossSize();
+      const cross = this._isVertical() ? center.x + totalCross / 2 : totalCross / 2 - center.y;
+      const col = clamp(Math.floor(cross / (this.itemCrossSize + this.gridSpacing)), 0, this.gridCount - 1);
+      target += col;
+    }
+    let min = 0;
+    let max = this.totalCount - 1;
+    if (this._sectionCounts.length > 0) {
+      const section = this.getSectionOfIndex(this._reorderFrom);
+      min = this._sectionFirstIndex[section];
+      max = min + this._sectionCounts[section] - 1;
+    }
+    target = clamp(target, min, max);
+    if (target === this._reorderTo) return;
+    this._reorderTo = target;
+    this._animateReorderLayout();
+  }
+
+  /** 空位变化后，可见项以动画移动到新位置 */
+  private _animateReorderLayout() {
+    const oldPositions = new Map<cc.Node, cc.Vec3>();
+    for (const node of this._slotNodes) {
+      if (node && node.active) oldPositions.set(node, node.position.clone());
+    }
+    this._layoutSlots(this._slotFirstIndex, false);
+    oldPositions.forEach((oldPos, node) => {
+      if (!node.active || node === this._reorderHiddenNode) return;
+      const newPos = node.position.clone();
+      if (newPos.equals(oldPos)) return;
+      node.setPosition(oldPos);
+      const t = tween(node)
+        .to(0.15, { position: newPos }, { easing: 'quadOut' })
+        .call(() => this._reorderTweens.delete(node))
+        .start();
+      this._reorderTweens.set(node, t);
+    });
+  }
+
+  /** 替身靠近视口边缘时自动滚动列表 */
+  private _updateReorderAutoScroll(dt: number) {
+    const proxy = this._reorderProxy;
+    if (!proxy || !this.content) return;
+    const box = proxy.getBoundingBoxToWorld();
+    const local = this.node.convertToNodeSpaceAR(box.center);
+    const nodeSize = this._viewportTf;
+    const anchor = this.node.getAnchorPoint();
+    // 替身中心距视口起始边的距离
+    const rel = this._isVertical() ? nodeSize.height * (1 - anchor.y) - local.y : local.x + nodeSize.width * anchor.x;
+    const edge = Math.min(80, this._viewportSize * 0.2);
+    let speed = 0;
+    if (rel < edge) speed = -this.reorderScrollSpeed * Math.min(1, (edge - rel) / edge);
+    else if (rel > this._viewportSize - edge) speed = this.reorderScrollSpeed * Math.min(1, (rel - this._viewportSize + edge) / edge);
+    if (speed === 0) return;
+    const oldPos = this._getContentMainPos();
+    const pos = this._clampToBounds(this._offsetToContentPos(this._getScrollOffset() + speed * dt));
+    if (pos === oldPos) return;
+    this._setContentMainPos(pos);
+    this._updateVisible(false);
+    this._onScrollPositionChanged();
+    this._updateReorderTarget();
+  }
+
+  /** 松手结束拖动：通知外部移动数据后按新顺序重新渲染 */
+  private _endReorder() {
+    const from = this._reorderFrom;
+    const to = this._reorderTo;
+    this._clearReorderState();
+    if (from !== to) {
+      this._moveItemState(from, to);
+      if (this.onItemMovedFn) this.onItemMovedFn(from, to);
+      this._emit(VScrollViewEvent.ITEM_MOVED, from, to);
+    }
+    this._updateVisible(true);
+    this._endScrolling();
+  }
+
+  /** 取消拖动（列表被禁用或销毁时）：不移动数据，可见项回到原位置 */
+  private _cancelReorder(relayout: boolean) {
+    if (this._reorderFrom < 0) return;
+    this._clearReorderState();
+    if (relayout && this.content) this._layoutSlots(this._slotFirstIndex, false);
+  }
+
+  /** 停止让位动画，销毁替身节点，恢复被拖动项原节点的显示 */
+  private _clearReorderState() {
+    this._reorderFrom = -1;
+    this._reorderTo = -1;
+    this._reorderTweens.forEach(t => t.stop());
+    this._reorderTweens.clear();
+    if (this._reorderProxy) {
+      if (cc.isValid(this._reorderProxy)) this._reorderProxy.destroy();
+      this._reorderProxy = null;
+    }
+    if (this._reorderHiddenNode) {
+      if (cc.isValid(this._reorderHiddenNode)) this._reorderHiddenNode.opacity = 255;
+      this._reorderHiddenNode = null;
+    }
+  }
+
+  /** 拖动排序中：隐藏被拖动项的原节点，节点被复用时恢复显示并停止让位动画 */
+  private _applyReorderState(node: cc.Node, index: number) {
+    const t = this._reorderTweens.get(node);
+    if (t) {
+      t.stop();
+      this._reorderTweens.delete(node);
+    }
+    if (this._reorderFrom < 0) return;
+    if (index === this._reorderFrom) {
+      node.opacity = 0;
+      this._reorderHiddenNode = node;
+    } else if (node === this._reorderHiddenNode) {
+      node.opacity = 255;
+      this._reorderHiddenNode = null;
+    }
+  }
+
+  /** 不等大小模式下拖动排序时，数据项相对原位置的偏移 */
+  private _getReorderShift(index: number): number {
+    const from = this._reorderFrom;
+    const to = this._reorderTo;
+    if (from < 0 || from === to) return 0;
+    const moved = this._itemSizes[from] + this.spacing;
+    if (index === from) {
+      const target = from < to ? this._prefixPositions[to] + this._itemSizes[to] - this._itemSizes[from] : this._prefixPositions[to];
+      return target - this._prefixPositions[from];
+    }
+    if (from < to && index > from && index <= to) return -moved;
+    if (to < from && index >= to && index < from) return moved;
+    return 0;
+  }
+
+  /** 当前键盘焦点所在的数据索引，无焦点时为 -1 */
+  public getFocusedIndex(): number {
+    return this._focusedIndex;
+  }
+
+  /**
+   * 设置键盘焦点，并滚动到刚好能完整看到焦点项的位置
+   * @param index 数据索引，传 -1 清除焦点
+   */
+  public setFocusedIndex(index: number, animate = false) {
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 setFocusedIndex');
+      return;
+    }
+    if (this.totalCount === 0 || index < 0) index = -1;
+    else index = this._isLooping() ? this._wrapIndex(index | 0) : Math.min(index | 0, this.totalCount - 1);
+    const oldIndex = this._focusedIndex;
+    if (index !== oldIndex) {
+      this._focusedIndex = index;
+      if (oldIndex >= 0) this._forEachShownNode(oldIndex, node => this._applyItemFocus(node, oldIndex));
+      if (index >= 0) this._forEachShownNode(index, node => this._applyItemFocus(node, index));
+      this._emit(VScrollViewEvent.FOCUS_CHANGED, index);
+    }
+    if (index >= 0) {
+      this.focus();
+      this.scrollIndexIntoView(index, animate);
+    }
+  }
+
+  /** 让本列表接收键盘导航（同一时刻只有一个列表响应按键），未开启键盘导航时无效 */
+  public focus() {
+    if (this._keyboardBound) VirtualScrollView._focusOwner = this;
+  }
+
+  /** 本列表不再接收键盘导航 */
+  public blur() {
+    if (VirtualScrollView._focusOwner === this) VirtualScrollView._focusOwner = null;
+  }
+
+  /** 本列表当前是否接收键盘导航 */
+  public isKeyboardFocused(): boolean {
+    return VirtualScrollView._focusOwner === this;
+  }
+
+  /** 清除键盘焦点所属列表（如打开弹窗、输入框获得焦点时），之后按键不再移动任何列表的焦点 */
+  public static clearKeyboardFocus() {
+    VirtualScrollView._focusOwner = null;
+  }
+
+  /** 焦点沿数据顺序移动 delta 项，没有焦点时从第一个可见项开始 */
+  public moveFocus(delta: number, animate = true) {
+    if (this.totalCount === 0) return;
+    if (this._focusedIndex < 0) {
+      this.setFocusedIndex(this.getVisibleRange().start, animate);
+      return;
+    }
+    const target = this._focusedIndex + (delta | 0);
+    this.setFocusedIndex(this._isLooping() ? target : clamp(target, 0, this.totalCount - 1), animate);
+  }
+
+  /** 对焦点项执行确认，效果与点击该项相同 */
+  public confirmFocus() {
+    const index = this._focusedIndex;
+    if (index < 0) return;
+    let target: cc.Node | null = null;
+    this._forEachShownNode(index, node => {
+      if (!target) target = node;
+    });
+    if (target) this._onItemClicked(target, index);
+  }
+
+  /**
+   * 以最小的滚动量让数据项完整出现在视口内，已完整可见时不滚动
+   */
+  public scrollIndexIntoView(index: number, animate = false) {
+    if (!this.useVirtualList || this.totalCount === 0) return;
+    index = clamp(index | 0, 0, this.totalCount - 1);
+    const start = this._getIndexScrollOffset(index) + this._getLeadingOffset();
+    const size = this._getItemMainSize(index);
+    const offset = this._getScrollOffset();
+    // 吸顶的分组头会盖住视口起始处
+    const startInset = this._sectionCounts.length > 0 && this.stickySectionHeader ? this._sectionHeaderSize : 0;
+    let target = offset;
+    if (start - startInset < offset) target = start - startInset;
+    else if (start + size > offset + this._viewportSize) target = start + size - this._viewportSize;
+    if (target !== offset) this._scrollToPosition(this._offsetToContentPos(target), animate);
+  }
+
+  /** 调用焦点高亮回调 */
+  private _applyItemFocus(node: cc.Node, index: number) {
+    if (this.onItemFocusChangeFn) this.onItemFocusChangeFn(node, index, index === this._focusedIndex);
+  }
+
+  /** 遍历正在显示某条数据的节点（循环模式下可能不止一个） */
+  private _forEachShownNode(index: number, fn: (node: cc.Node) => void) {
+    for (let s = 0; s < this._slots; s++) {
+      const node = this._slotNodes[s];
+      if (this._getShownIndex(node) === index) fn(node!);
+    }
+  }
+
+  /** 焦点项所在行（横向为列）的上一行/下一行中同一列的项，分组时跨组移动 */
+  private _getLineNeighbor(index: number, dir: number): number {
+    const grid = this._getGridColumns();
+    if (this._isLooping()) return this._wrapIndex(index + dir * grid);
+    let section = Math.max(0, this.getSectionOfIndex(index));
+    const firstOf = (s: number) => (this._sectionCounts.length > 0 ? this._sectionFirstIndex[s] : 0);
+    const countOf = (s: number) => (this._sectionCounts.length > 0 ? this._sectionCounts[s] : this.totalCount);
+    const sectionCount = Math.max(1, this._sectionCounts.length);
+    const local = index - firstOf(section);
+    const col = local % grid;
+    const line = Math.floor(local / grid) + dir;
+    if (line >= 0 && line * grid < countOf(section)) {
+      return firstOf(section) + Math.min(line * grid + col, countOf(section) - 1);
+    }
+    // 越过分组边界，跳过空分组
+    do {
+      section += dir;
+    } while (section >= 0 && section < sectionCount && countOf(section) === 0);
+    if (section < 0 || section >= sectionCount) return dir > 0 ? this.totalCount - 1 : index;
+    const targetLine = dir > 0 ? 0 : Math.floor((countOf(section) - 1) / grid);
+    return firstOf(section) + Math.min(targetLine * grid + col, countOf(section) - 1);
+  }
+
+  /** 翻页：焦点移动约一个视口的距离，保持所在列 */
+  private _getPageNeighbor(index: number, dir: number): number {
+    const col = this._getGridColumns() > 1 ? this._getItemGridPos(index) : 0;
+    const offset = this._getItemStartPos(index) + dir * this._viewportSize;
+    if (this._isLooping()) {
+      const cycleSize = this._getLoopCycleSize();
+      const cycle = Math.floor(offset / cycleSize);
+      return this._wrapIndex(this._offsetToIndex(offset - cycle * cycleSize) + col);
+    }
+    return clamp(this._offsetToIndex(offset) + col, 0, this.totalCount - 1);
   }
-  public flashToIndex(index: number) {
-    if (!this.useVirtualList) {
-      console.warn('[VirtualScrollView] 简单滚动模式不支持 flashToIndex');
+
+  private _handleNavKey(keyCode: number) {
+    if (VirtualScrollView._focusOwner !== this) return;
+    if (!this.useVirtualList || this.totalCount === 0) return;
+    const KEY = cc.macro.KEY;
+    if (keyCode === KEY.enter || keyCode === KEY.space || keyCode === KEY.dpadCenter) {
+      this.confirmFocus();
       return;
     }
-    index = clamp(index | 0, 0, Math.max(0, this.totalCount - 1));
-    let targetPos = 0;
-    if (this.useDynamicSize) {
-      targetPos = this._prefixPositions[index] || 0;
-    } else {
-      const line = Math.floor(index / this.gridCount);
-      targetPos = line * (this.itemMainSize + this.spacing);
-    }
-    if (!this._isVertical()) {
-      targetPos = -targetPos;
+    const prevLine = this._isVertical() ? [KEY.up, KEY.dpadUp] : [KEY.left, KEY.dpadLeft];
+    const nextLine = this._isVertical() ? [KEY.down, KEY.dpadDown] : [KEY.right, KEY.dpadRight];
+    const prevItem = this._isVertical() ? [KEY.left, KEY.dpadLeft] : [KEY.up, KEY.dpadUp];
+    const nextItem = this._isVertical() ? [KEY.right, KEY.dpadRight] : [KEY.down, KEY.dpadDown];
+    const grid = this._getGridColumns();
+    const index = this._focusedIndex;
+    let target: number;
+    if (prevLine.indexOf(keyCode) >= 0) target = this._getLineNeighbor(index, -1);
+    else if (nextLine.indexOf(keyCode) >= 0) target = this._getLineNeighbor(index, 1);
+    else if (grid > 1 && prevItem.indexOf(keyCode) >= 0) target = index - 1;
+    else if (grid > 1 && nextItem.indexOf(keyCode) >= 0) target = index + 1;
+    else if (keyCode === KEY.pageup) target = this._getPageNeighbor(index, -1);
+    else if (keyCode === KEY.pagedown) target = this._getPageNeighbor(index, 1);
+    else if (keyCode === KEY.home) target = 0;
+    else if (keyCode === KEY.end) target = this.totalCount - 1;
+    else return;
+    if (index < 0) {
+      // 首次按键只获取焦点
+      this.setFocusedIndex(this.getVisibleRange().start, true);
+      return;
     }
-    this._flashToPosition(targetPos);
+    this.setFocusedIndex(this._isLooping() ? target : clamp(target, 0, this.totalCount - 1), true);
   }
 
-  public refreshIndex(index: number) {
-    if (!this.useVirtualList) {
-      console.warn('[VirtualScrollView] 简单滚动模式不支持 refreshIndex');
+  private _onKeyDown(e: cc.Event.EventKeyboard) {
+    this._handleNavKey(e.keyCode);
+  }
+
+  private _onMouseWheel(e: cc.Event.EventMouse) {
+    if (!this.enableMouseWheel || this._isTouching || !this.content) return;
+    // 纵向列表响应普通滚轮；横向列表响应横向滚动或 Shift+滚轮
+    let raw = 0;
+    if (this._isVertical()) {
+      if (!shiftKey.pressed) raw = e.getScrollY();
+    } else {
+      raw = e.getScrollX() || (shiftKey.pressed ? e.getScrollY() : 0);
+    }
+    if (raw === 0) return;
+    e.stopPropagation();
+    if (this._scrollTween) {
+      this._scrollTween.stop();
+      this._scrollTween = null;
+    }
+    this._snapTarget = null;
+    // Web 平台按事件间隔和滚动量区分：触控板是高频小幅事件，普通滚轮是间隔较长的整格事件；同一串连续事件保持同一模式
+    const now = performance.now();
+    const streaming = now - this._wheelLastTime < WHEEL_STREAM_INTERVAL;
+    this._wheelLastTime = now;
+    if (CC_JSB) this._wheelPixelMode = false;
+    else if (!streaming || !this._wheelPixelMode) this._wheelPixelMode = Math.abs(raw) < WHEEL_PIXEL_DELTA_MAX;
+    // 滚轮向上（正值）朝列表起点滚动
+    const offsetDelta = -raw;
+    if (!this._wheelPixelMode) {
+      // 普通滚轮：按格数累加目标位置，由 update 平滑逼近并准确停在目标上
+      const perLine = CC_JSB ? WHEEL_NATIVE_DELTA_PER_LINE : WHEEL_DELTA_PER_LINE;
+      const lines = Math.sign(offsetDelta) * Math.max(1, Math.round(Math.abs(offsetDelta) / perLine));
+      const from = this._wheelTarget !== null ? this._offsetToContentPos(this._wheelTarget) : this._getScrollOffset();
+      this._velocity = 0;
+      this._wheelTarget = this._clampToBounds(this._offsetToContentPos(from + lines * this.wheelLineStep));
       return;
     }
-    const first = this._slotFirstIndex;
-    const last = first + this._slots - 1;
-    if (index < first || index > last) return;
-    const slot = index - first;
-    const node = this._slotNodes[slot];
-    if (node && this.renderItemFn) this.renderItemFn(node, index);
+    // 触控板：高频小幅事件直接跟手，系统自带惯性
+    this._wheelTarget = null;
+    this._velocity = 0;
+    this._wheelHoldTime = 0.15;
+    const offset = this._getScrollOffset();
+    const pos = this._clampToBounds(this._offsetToContentPos(offset + offsetDelta * this.wheelPixelScale));
+    this._setContentMainPos(pos);
+    if (this.useVirtualList) this._updateVisible(false);
+    this._onScrollPositionChanged();
+  }
+
+  /** 普通滚轮平滑滚动：按指数衰减逼近目标位置（无回弹），足够接近时直接落在目标上 */
+  private _stepWheelScroll(dt: number) {
+    const target = this._wheelTarget!;
+    const pos = this._getContentMainPos();
+    let next = pos + (target - pos) * (1 - Math.exp(-WHEEL_APPROACH_RATE * dt));
+    if (this.pixelAlign) next = Math.round(next);
+    if (Math.abs(target - next) < 0.5) next = target;
+    this._velocity = dt > 0 ? (next - pos) / dt : 0;
+    this._setContentMainPos(next);
+    if (this.useVirtualList) this._updateVisible(false);
+    this._onScrollPositionChanged();
+    if (next !== target) return;
+    // 到达目标：之后由 update 正常结束滚动，开启吸附时再吸附到最近的页/项
+    this._wheelTarget = null;
+    this._velocity = 0;
+    if (this.snapMode !== SnapMode.NONE) this._snapTarget = this._chooseSnapTarget(0);
   }
 
   private _onDown(e: cc.Event.EventTouch) {
+    this._touchLocation.set(e.getLocation());
+    this.focus();
+    this._closeSwipeOnOutsideTouch(e.target as cc.Node);
+    this._touchDownContentPos = this._getContentMainPos();
+    this._dragLock = 0;
     this._isTouching = true;
     this._velocity = 0;
     this._velSamples.length = 0;
@@ -927,15 +3319,38 @@ export class VirtualScrollView extends cc.Component {
       this._scrollTween.stop();
       this._scrollTween = null;
     }
+    this._snapTarget = null;
+    this._wheelTarget = null;
   }
 
   private _onMove(e: cc.Event.EventTouch) {
+    this._touchLocation.set(e.getLocation());
+    if (this._reorderFrom >= 0) {
+      this._updateReorderProxy();
+      return;
+    }
     if (!this._isTouching) return;
     const deltaVec = e.getDelta();
-    const delta = this._isVertical() ? deltaVec.y : deltaVec.x;
+    let delta = this._isVertical() ? deltaVec.y : deltaVec.x;
+    if (this.directionLock) {
+      if (this._dragLock === 0) {
+        const loc = e.getLocation();
+        const startLoc = e.getStartLocation();
+        const dx = loc.x - startLoc.x;
+        const dy = loc.y - startLoc.y;
+        if (Math.sqrt(dx * dx + dy * dy) < this.clickThreshold) return;
+        const horizontal = Math.abs(dx) > Math.abs(dy);
+        this._dragLock = horizontal !== this._isVertical() ? 1 : 2;
+        // 补上确定方向前累计的位移
+        delta = this._isVertical() ? dy : dx;
+      }
+      if (this._dragLock === 2) return;
+      // 独占本次拖动，外层列表不再收到移动事件
+      e.stopPropagation();
+    }
     let pos = this._getContentMainPos();
-    const minBound = Math.min(this._boundsMin, this._boundsMax);
-    const maxBound = Math.max(this._boundsMin, this._boundsMax);
+    const minBound = this._isLooping() ? -Infinity : Math.min(this._boundsMin, this._boundsMax);
+    const maxBound = this._isLooping() ? Infinity : Math.max(this._boundsMin, this._boundsMax);
 
     // 计算是否需要下拉刷新或上拉加载
     let finalDelta = delta;
@@ -990,6 +3405,8 @@ export class VirtualScrollView extends cc.Component {
       }
     }
 
+    if (!isPullingRefresh && !isPullingLoadMore) finalDelta = this._chainDelta(pos, finalDelta);
+
     // 应用位置变化
     pos += finalDelta;
     if (this.pixelAlign) pos = Math.round(pos);
@@ -1001,9 +3418,14 @@ export class VirtualScrollView extends cc.Component {
     const t0 = t - this.velocityWindow;
     while (this._velSamples.length && this._velSamples[0].t < t0) this._velSamples.shift();
     if (this.useVirtualList) this._updateVisible(false);
+    if (finalDelta !== 0) this._onScrollPositionChanged();
   }
 
   private _onUp(e?: cc.Event.EventTouch) {
+    if (this._reorderFrom >= 0) {
+      this._endReorder();
+      return;
+    }
     if (!this._isTouching) return;
     this._isTouching = false;
 
@@ -1053,6 +3475,10 @@ export class VirtualScrollView extends cc.Component {
       this._velocity = 0;
     }
     this._velSamples.length = 0;
+    if (this.snapMode !== SnapMode.NONE) this._snapTarget = this._chooseSnapTarget(this._velocity);
+    // 没有惯性、也不需要回弹或吸附时，滚动到此结束
+    const pos = this._getContentMainPos();
+    if (this._velocity === 0 && this._snapTarget === null && pos === this._clampToBounds(pos)) this._endScrolling();
   }
 
   // 更新刷新状态
@@ -1062,6 +3488,7 @@ export class VirtualScrollView extends cc.Component {
     if (this.onRefreshStateChangeFn) {
       this.onRefreshStateChangeFn(state, offset);
     }
+    this._emit(VScrollViewEvent.REFRESH_STATE_CHANGED, state, offset);
   }
 
   // 更新加载状态
@@ -1071,6 +3498,7 @@ export class VirtualScrollView extends cc.Component {
     if (this.onLoadMoreStateChangeFn) {
       this.onLoadMoreStateChangeFn(state, offset);
     }
+    this._emit(VScrollViewEvent.LOAD_MORE_STATE_CHANGED, state, offset);
   }
 
   // 触发刷新
@@ -1138,8 +3566,17 @@ export class VirtualScrollView extends cc.Component {
     this._updateLoadMoreState(LoadMoreState.IDLE, 0);
   }
 
-  private _updateVisible(force: boolean) {
-    if (!this.useVirtualList) return;
+  /** 根据当前滚动位置计算首个槽位对应的数据索引 */
+  private _calcFirstIndex(): number {
+    if (this._isLooping()) {
+      // 先定位所在的轮次，再在一轮内查找
+      const offset = this._getScrollOffset();
+      const cycleSize = this._getLoopCycleSize();
+      const cycle = Math.floor(offset / cycleSize);
+      const within = offset - cycle * cycleSize;
+      const first = this.useDynamicSize ? this._posToFirstIndex(within) - this.buffer : this._fixedOffsetToIndex(within);
+      return cycle * this.totalCount + first;
+    }
     let scrollPos = this._getContentMainPos();
     let searchPos: number;
     if (this._isVertical()) {
@@ -1149,16 +3586,162 @@ export class VirtualScrollView extends cc.Component {
     }
 
     let newFirst = 0;
-    if (this.useDynamicSize) {
+    if (this._hasCustomLayout()) {
+      const range = this.layout!.getIndexRange(this._layoutCtx!, searchPos, searchPos + this._viewportSize);
+      newFirst = clamp(range.start - this.buffer, 0, Math.max(0, this.totalCount - 1));
+    } else if (this.useDynamicSize) {
       const range = this._calcVisibleRange(searchPos);
       newFirst = range.start;
     } else {
-      const stride = this.itemMainSize + this.spacing;
-      const firstLine = Math.floor(searchPos / stride);
-      const first = firstLine * this.gridCount;
+      const first = this._fixedOffsetToIndex(searchPos);
       newFirst = clamp(first, 0, Math.max(0, this.totalCount - 1));
     }
     if (this.totalCount < this._slots) newFirst = 0;
+    return newFirst;
+  }
+
+  private _updateVisible(force: boolean) {
+    if (!this.useVirtualList) return;
+    this._updateVisibleSlots(force);
+    this._updateSectionHeaders(force);
+    this._applyItemTransforms();
+    this._checkVisibleRangeChanged();
+  }
+
+  private _hasItemTransform(): boolean {
+    return this.itemTransformPreset !== ItemTransformPreset.NONE || !!this.itemTransformFn;
+  }
+
+  /** 按子项到视口中心的距离应用效果预设和 itemTransformFn，每次内容位置变化后调用 */
+  private _applyItemTransforms() {
+    if (!this._hasItemTransform()) return;
+    for (let s = 0; s < this._slotNodes.length; s++) {
+      const node = this._slotNodes[s];
+      if (node) this._applyItemTransform(node);
+    }
+  }
+
+  private _applyItemTransform(node: cc.Node) {
+    const half = this._viewportSize / 2;
+    if (half <= 0 || node === this._reorderHiddenNode) return;
+    // 默认占位靠透明度隐藏节点，渲染完成前不参与变换
+    if (!this.renderPlaceholderFn && this._placeholderNodes.has(node)) return;
+    const index = this._getShownIndex(node);
+    if (index < 0) return;
+    const distance = (this._getNodeCenterOffset(node) - this._getScrollOffset() - half) / half;
+    this._applyTransformPreset(node, distance);
+    if (this.itemTransformFn) this.itemTransformFn(node, index, distance);
+  }
+
+  /** 节点中心在主方向上的偏移（从列表起点算起） */
+  private _getNodeCenterOffset(node: cc.Node): number {
+    if (this._isVertical()) return -(node.y + (0.5 - node.anchorY) * node.height);
+    return node.x + (0.5 - node.anchorX) * node.width;
+  }
+
+  private _applyTransformPreset(node: cc.Node, distance: number) {
+    const d = clamp(distance, -1, 1);
+    const a = Math.abs(d);
+    const vertical = this._isVertical();
+    switch (this.itemTransformPreset) {
+      case ItemTransformPreset.COVER_FLOW: {
+        // 主方向按侧转角度压缩，再用斜切模拟近大远小
+        const scale = 1 - 0.25 * a;
+        const main = scale * Math.cos((a * Math.PI) / 3);
+        node.scaleX = vertical ? scale : main;
+        node.scaleY = vertical ? main : scale;
+        node.skewX = vertical ? d * 15 : 0;
+        node.skewY = vertical ? 0 : -d * 15;
+        break;
+      }
+      case ItemTransformPreset.WHEEL: {
+        // 子项排布在圆柱面上，越靠近两端投影越扁
+        const main = Math.cos(d * Math.PI * 0.45);
+        node.scaleX = vertical ? 1 : main;
+        node.scaleY = vertical ? main : 1;
+        node.opacity = this._getFadeOpacity(a);
+        break;
+      }
+      case ItemTransformPreset.FADE_EDGES:
+        node.opacity = this._getFadeOpacity(a);
+        break;
+    }
+  }
+
+  private _getFadeOpacity(distance: number): number {
+    const range = Math.max(0.05, this.itemFadeRange);
+    return Math.round(255 * clamp((1 - distance) / range, 0, 1));
+  }
+
+  /** 当前视口内（不含缓冲区）的数据索引范围，end 为最后一个可见项 */
+  public getVisibleRange(): { start: number; end: number } {
+    if (!this.useVirtualList || this.totalCount === 0) return { start: 0, end: -1 };
+    return this._getIndexRangeAt(this._getScrollOffset() - this._getLeadingOffset(), this._viewportSize);
+  }
+
+  /** 主方向区间 [offset, offset + length) 内的数据索引范围，end 为最后一项 */
+  private _getIndexRangeAt(offset: number, length: number): { start: number; end: number } {
+    const start = this._offsetToVirtualIndex(offset);
+    if (this._hasCustomLayout()) {
+      const range = this.layout!.getIndexRange(this._layoutCtx!, offset, offset + length);
+      return { start: clamp(range.start, 0, this.totalCount - 1), end: Math.min(range.end, this.totalCount - 1) };
+    }
+    const step = this._getGridColumns();
+    let end = this._isMultiColumnDynamic()
+      ? Math.max(start, this._lastIndexStartingBefore(offset + length))
+      : this._offsetToVirtualIndex(offset + length - 1) + step - 1;
+    if (!this._isLooping()) end = Math.min(end, this.totalCount - 1);
+    return { start: this._wrapIndex(start), end: this._wrapIndex(end) };
+  }
+
+  private _checkVisibleRangeChanged() {
+    const range = this.getVisibleRange();
+    if (range.start === this._lastVisibleStart && range.end === this._lastVisibleEnd) return;
+    this._lastVisibleStart = range.start;
+    this._lastVisibleEnd = range.end;
+    this._emit(VScrollViewEvent.VISIBLE_RANGE_CHANGED, range.start, range.end);
+    this._requestVisiblePages();
+  }
+
+  /** 主方向偏移处的虚拟索引（循环模式下会跨轮次） */
+  private _offsetToVirtualIndex(offset: number): number {
+    if (!this._isLooping()) return this._offsetToIndex(offset);
+    const cycleSize = this._getLoopCycleSize();
+    const cycle = Math.floor(offset / cycleSize);
+    return cycle * this.totalCount + this._offsetToIndex(offset - cycle * cycleSize);
+  }
+
+  /** 自定义布局：当前视口的可见项超出槽位覆盖范围时扩展槽位，返回是否扩展 */
+  private _growLayoutSlots(first: number): boolean {
+    const offset = this._getScrollOffset() - this._getLeadingOffset();
+    const range = this.layout!.getIndexRange(this._layoutCtx!, offset, offset + this._viewportSize);
+    const needed = Math.min(range.end + this.buffer, this.totalCount - 1) - first + 1;
+    if (needed <= this._slots) return false;
+    this._maxVisibleSpan = Math.max(this._maxVisibleSpan, range.end - range.start + 1);
+    this._appendSlots(Math.max(needed, this._getLayoutSlotCount()));
+    return true;
+  }
+
+  /** 槽位超出数据范围时隐藏节点 */
+  private _hideSlotNode(node: cc.Node | null) {
+    if (!node) return;
+    const prevIndex = this._getShownIndex(node);
+    if (prevIndex >= 0) this._emit(VScrollViewEvent.ITEM_RECYCLED, node, prevIndex);
+    this._invalidateRender(node);
+    this._clearPlaceholder(node);
+    node.active = false;
+  }
+
+  /** 节点当前显示的数据索引，未显示时为 -1 */
+  private _getShownIndex(node: cc.Node | null): number {
+    if (!node || !node.active) return -1;
+    const item = node.getComponent(VScrollViewItem);
+    return item ? item.dataIndex : -1;
+  }
+
+  private _updateVisibleSlots(force: boolean) {
+    const newFirst = this._calcFirstIndex();
+    if (this._hasCustomLayout() && this._growLayoutSlots(newFirst)) force = true;
     if (force) {
       this._slotFirstIndex = newFirst;
       this._layoutSlots(this._slotFirstIndex, true);
@@ -1183,9 +3766,9 @@ export class VirtualScrollView extends cc.Component {
       for (let i = 0; i < absDiff; i++) {
         const slot = this._slots - absDiff + i;
         const idx = this._slotFirstIndex + slot;
-        if (idx >= this.totalCount) {
+        if (!this._isIndexInRange(idx)) {
           const node = this._slotNodes[slot];
-          if (node) node.active = false;
+          this._hideSlotNode(node);
         } else {
           this._layoutSingleSlot(this._slotNodes[slot], idx, slot);
         }
@@ -1200,9 +3783,9 @@ export class VirtualScrollView extends cc.Component {
       this._slotFirstIndex = newFirst;
       for (let i = 0; i < absDiff; i++) {
         const idx = this._slotFirstIndex + i;
-        if (idx >= this.totalCount) {
+        if (!this._isIndexInRange(idx)) {
           const node = this._slotNodes[i];
-          if (node) node.active = false;
+          this._hideSlotNode(node);
         } else {
           this._layoutSingleSlot(this._slotNodes[i], idx, i);
         }
@@ -1210,8 +3793,25 @@ export class VirtualScrollView extends cc.Component {
     }
   }
 
-  private async _layoutSingleSlot(node: cc.Node | null, idx: number, slot: number) {
+  /**
+   * @param budgeted 是否受每帧渲染预算限制，顺延渲染时传 false（预算已在调用处扣除）
+   */
+  private async _layoutSingleSlot(
+    node: cc.Node | null,
+    virtualIdx: number,
+    slot: number,
+    render: boolean = true,
+    budgeted: boolean = true
+  ) {
     if (!this.useVirtualList) return;
+    const idx = this._wrapIndex(virtualIdx);
+    const prevNode = this.useDynamicSize ? this._slotNodes[slot] : node;
+    const prevIndex = this._getShownIndex(prevNode);
+    if (prevIndex >= 0 && prevIndex !== idx) this._emit(VScrollViewEvent.ITEM_RECYCLED, prevNode!, prevIndex);
+    // 只有换到新索引的渲染受预算限制，同一项的刷新立即完成
+    const deferred = render && budgeted && prevIndex !== idx && !this._tryConsumeRenderBudget();
+    if (deferred) this._pendingRenders.add(virtualIdx);
+    else if (render) this._pendingRenders.delete(virtualIdx);
     if (this.useDynamicSize) {
       let targetPrefabIndex = this.getItemTypeIndexFn ? this.getItemTypeIndexFn(idx) : 0;
       const currentPrefabIndex = this._slotPrefabIndices[slot];
@@ -1220,8 +3820,14 @@ export class VirtualScrollView extends cc.Component {
         newNode = this._slotNodes[slot];
       } else {
         if (this._slotNodes[slot] && this._nodePool && currentPrefabIndex >= 0) {
+          this._invalidateRender(this._slotNodes[slot]);
+          this._clearPlaceholder(this._slotNodes[slot]);
           this._nodePool.put(this._slotNodes[slot], currentPrefabIndex);
+          this._slotNodes[slot] = null;
+          this._slotPrefabIndices[slot] = -1;
         }
+        // 预算用尽且需要实例化新节点时，整个槽位顺延到后续帧
+        if (deferred && this._nodePool && !this._nodePool.hasFree(targetPrefabIndex)) return;
         if (this._nodePool) {
           newNode = this._nodePool.get(targetPrefabIndex);
           if (!newNode) {
@@ -1238,101 +3844,592 @@ export class VirtualScrollView extends cc.Component {
         return;
       }
       newNode.active = true;
+      const rect = this._hasCustomLayout() ? this.layout!.getItemRect(this._layoutCtx!, idx) : null;
+      if (rect) this._applyLayoutCrossSize(newNode, rect);
+      const cross = this._isMultiColumnDynamic() ? this._getDynamicCross(idx) : null;
+      if (cross && this._isWaterfall()) {
+        // 瀑布流子项宽度（横向为高度）固定为列宽
+        const size = newNode.getContentSize();
+        if (this._isVertical()) newNode.setContentSize(cross.size, size.height);
+        else newNode.setContentSize(size.width, cross.size);
+      }
       this._updateItemClickHandler(newNode, idx);
-      if (this.renderItemFn) this.renderItemFn(newNode, idx);
-      if (this.getItemHeightFn) {
-        const expectedSize = this.getItemHeightFn(idx);
-        if (this._itemSizes[idx] !== expectedSize) {
-          this.updateItemHeight(idx, expectedSize);
-          return;
-        }
-      } else {
-        const actualSize = this._getNodeMainSize(newNode);
-        if (Math.abs(this._itemSizes[idx] - actualSize) > 1) {
-          this.updateItemHeight(idx, actualSize);
-          return;
-        }
+      const pending = render && !deferred ? this._renderItem(newNode, idx) : null;
+      if (deferred) this._showPlaceholder(newNode, idx);
+      this._applyItemFocus(newNode, idx);
+      this._applyReorderState(newNode, idx);
+      // 未重新渲染时沿用已测量的尺寸；getItemHeightFn 给出的尺寸变化同样交给测量队列统一应用
+      if (render && this.getItemHeightFn) {
+        if (this._itemSizes[idx] !== this.getItemHeightFn(idx)) this._queueMeasure(newNode, idx);
+      } else if (render && !pending && !deferred) {
+        // Label 等组件的尺寸要到渲染后才更新，下一帧再测量
+        this._queueMeasure(newNode, idx);
       }
-      const anchor = this._getNodeAnchor(newNode);
-      const size = this._itemSizes[idx];
-      const itemStart = this._prefixPositions[idx];
-      if (this._isVertical()) {
-        const anchorOffsetY = size * (1 - anchor.y);
-        const nodeY = itemStart + anchorOffsetY;
-        const y = -nodeY;
-        newNode.setPosition(0, this.pixelAlign ? Math.round(y) : y);
+      if (rect) {
+        this._placeNodeMain(newNode, rect.start + this._getLeadingOffset(), rect.size, rect.cross);
       } else {
-        const anchorOffsetX = size * anchor.x;
-        const nodeX = itemStart + anchorOffsetX;
-        const x = nodeX;
-        newNode.setPosition(this.pixelAlign ? Math.round(x) : x, 0);
+        const itemStart = this._getVirtualItemStart(virtualIdx) + this._getReorderShift(idx) + this._getLeadingOffset();
+        this._placeNodeMain(newNode, itemStart, this._itemSizes[idx], cross ? cross.pos : 0);
       }
+      // 占位中的子项在真正渲染时再播放出现动画、派发显示事件
+      if (deferred) return;
       if (this._needAnimateIndices.has(idx)) {
         if (this.playItemAppearAnimationFn) this.playItemAppearAnimationFn(newNode, idx);
         else this._playDefaultItemAppearAnimation(newNode, idx);
         this._needAnimateIndices.delete(idx);
       }
+      if (render || prevIndex !== idx) this._emit(VScrollViewEvent.ITEM_SHOWN, newNode, idx);
+      // 异步渲染完成后再测量尺寸，期间节点已被复用时丢弃结果
+      if (pending && (await pending) && !this.getItemHeightFn) this._queueMeasure(newNode, idx);
     } else {
       if (!node) return;
       node.active = true;
-      const stride = this.itemMainSize + this.spacing;
-      const line = Math.floor(idx / this.gridCount);
-      const gridPos = idx % this.gridCount;
-      const itemStart = line * stride;
-      if (this._isVertical()) {
-        const anchor = this._getNodeAnchor(node);
-        const anchorOffsetY = this.itemMainSize * (1 - anchor.y);
-        const nodeY = itemStart + anchorOffsetY;
-        const y = -nodeY;
-        const totalWidth = this.gridCount * this.itemCrossSize + (this.gridCount - 1) * this.gridSpacing;
-        const x = gridPos * (this.itemCrossSize + this.gridSpacing) - totalWidth / 2 + this.itemCrossSize / 2;
-        node.setPosition(this.pixelAlign ? Math.round(x) : x, this.pixelAlign ? Math.round(y) : y);
+      // 拖动排序中，其他项按移动后的顺序让出空位
+      const displayIdx = this._reorderFrom >= 0 ? moveIndex(idx, this._reorderFrom, this._reorderTo) : idx;
+      const gridPos = this._getItemGridPos(displayIdx);
+      const itemStart = this._getVirtualItemStart(virtualIdx + displayIdx - idx) + this._getLeadingOffset();
+      const totalCross = this._getGridCrossSize();
+      if (this._hasCustomLayout()) {
+        const rect = this.layout!.getItemRect(this._layoutCtx!, idx);
+        if (this._isVertical()) node.setContentSize(this.itemCrossSize, rect.size);
+        else node.setContentSize(rect.size, this.itemCrossSize);
+        this._applyLayoutCrossSize(node, rect);
+        this._placeNodeMain(node, rect.start + this._getLeadingOffset(), rect.size, rect.cross);
+      } else if (this._isVertical()) {
+        const x = gridPos * (this.itemCrossSize + this.gridSpacing) - totalCross / 2 + this.itemCrossSize / 2;
+        this._placeNodeMain(node, itemStart, this.itemMainSize, x);
         node.setContentSize(this.itemCrossSize, this.itemMainSize);
       } else {
-        const anchor = this._getNodeAnchor(node);
-        const anchorOffsetX = this.itemMainSize * anchor.x;
-        const nodeX = itemStart + anchorOffsetX;
-        const x = nodeX;
-        const totalHeight = this.gridCount * this.itemCrossSize + (this.gridCount - 1) * this.gridSpacing;
-        const y = totalHeight / 2 - gridPos * (this.itemCrossSize + this.gridSpacing) - this.itemCrossSize / 2;
-        node.setPosition(this.pixelAlign ? Math.round(x) : x, this.pixelAlign ? Math.round(y) : y);
+        const y = totalCross / 2 - gridPos * (this.itemCrossSize + this.gridSpacing) - this.itemCrossSize / 2;
+        this._placeNodeMain(node, itemStart, this.itemMainSize, y);
         node.setContentSize(this.itemMainSize, this.itemCrossSize);
       }
       this._updateItemClickHandler(node, idx);
-      if (this.renderItemFn) this.renderItemFn(node, idx);
+      if (deferred) this._showPlaceholder(node, idx);
+      else if (render) this._renderItem(node, idx);
+      this._applyItemFocus(node, idx);
+      this._applyReorderState(node, idx);
+      // 占位中的子项在真正渲染时再播放出现动画、派发显示事件
+      if (deferred) return;
       if (this._needAnimateIndices.has(idx)) {
         if (this.playItemAppearAnimationFn) this.playItemAppearAnimationFn(node, idx);
         else this._playDefaultItemAppearAnimation(node, idx);
         this._needAnimateIndices.delete(idx);
       }
+      if (render || prevIndex !== idx) this._emit(VScrollViewEvent.ITEM_SHOWN, node, idx);
     }
   }
 
   private _playDefaultItemAppearAnimation(node: cc.Node, index: number) {}
 
+  /**
+   * 调用 renderItemFn 并发放新的渲染令牌，之前未完成的渲染随之失效
+   * @returns 异步渲染时返回完成后令牌是否仍有效，同步渲染返回 null
+   */
+  private _renderItem(node: cc.Node, index: number): Promise<boolean> | null {
+    // 数据所在页尚未加载时显示占位，加载完成后由 refreshIndex 重新渲染
+    if (this._dataSource && !this._dataSource.isLoaded(index)) {
+      this._showPlaceholder(node, index);
+      return null;
+    }
+    this._clearPlaceholder(node);
+    if (!this.renderItemFn) return null;
+    const item = node.getComponent(VScrollViewItem) || node.addComponent(VScrollViewItem);
+    const token = new RenderToken(node, index, item, ++item.renderGeneration);
+    const result = this.renderItemFn(node, index, this._selectedIndices.has(index), token);
+    if (!(result instanceof Promise)) return null;
+    return result.then(
+      () => token.valid,
+      err => {
+        console.error(`[VScrollView] 索引 ${index} 渲染失败`, err);
+        return false;
+      }
+    );
+  }
+
+  /** 本帧是否还有渲染预算，有则计入一次；每帧至少允许渲染一项 */
+  private _tryConsumeRenderBudget(): boolean {
+    if (this.renderBudgetCount <= 0 && this.renderBudgetMs <= 0) return true;
+    const frame = cc.director.getTotalFrames();
+    if (frame !== this._budgetFrame) {
+      this._budgetFrame = frame;
+      this._budgetCount = 0;
+      this._budgetStart = performance.now();
+    }
+    if (this.renderBudgetCount > 0 && this._budgetCount >= this.renderBudgetCount) return false;
+    if (this.renderBudgetMs > 0 && this._budgetCount > 0 && performance.now() - this._budgetStart >= this.renderBudgetMs) return false;
+    this._budgetCount++;
+    return true;
+  }
+
+  /** 按离视口中心由近到远，渲染之前超出预算的子项 */
+  private _flushPendingRenders() {
+    if (this._pendingRenders.size === 0 || !this.useVirtualList) return;
+    const order = this._pendingOrder;
+    order.length = 0;
+    this._pendingRenders.forEach(v => {
+      const slot = v - this._slotFirstIndex;
+      // 已滚出槽位范围的不再渲染
+      if (slot < 0 || slot >= this._slots || !this._isIndexInRange(v)) this._pendingRenders.delete(v);
+      else order.push(v);
+    });
+    const center = this._getScrollOffset() - this._getLeadingOffset() + this._viewportSize / 2;
+    const distance = (v: number) => Math.abs(this._getVirtualItemStart(v) + this._getItemMainSize(this._wrapIndex(v)) / 2 - center);
+    order.sort((a, b) => distance(a) - distance(b));
+    for (let i = 0; i < order.length; i++) {
+      if (!this._tryConsumeRenderBudget()) break;
+      const v = order[i];
+      const slot = v - this._slotFirstIndex;
+      this._pendingRenders.delete(v);
+      this._layoutSingleSlot(this._slotNodes[slot], v, slot, true, false);
+      const node = this._slotNodes[slot];
+      if (node && this._hasItemTransform()) this._applyItemTransform(node);
+    }
+  }
+
+  /** 超出预算时显示占位，并使之前未完成的异步渲染失效 */
+  private _showPlaceholder(node: cc.Node, index: number) {
+    this._invalidateRender(node);
+    this._placeholderNodes.add(node);
+    if (this.renderPlaceholderFn) this.renderPlaceholderFn(node, index);
+    else node.opacity = 0;
+  }
+
+  private _clearPlaceholder(node: cc.Node) {
+    if (this._placeholderNodes.delete(node) && !this.renderPlaceholderFn) node.opacity = 255;
+  }
+
+  /** 使节点上未完成的异步渲染失效 */
+  private _invalidateRender(node: cc.Node) {
+    const item = node.getComponent(VScrollViewItem);
+    if (item) item.renderGeneration++;
+  }
+
+  /** 按自定义布局给出的副方向尺寸调整节点 */
+  private _applyLayoutCrossSize(node: cc.Node, rect: VScrollLayoutRect) {
+    if (rect.crossSize === undefined || rect.crossSize <= 0) return;
+    const size = node.getContentSize();
+    if (this._isVertical()) node.setContentSize(rect.crossSize, size.height);
+    else node.setContentSize(size.width, rect.crossSize);
+  }
+
+  /**
+   * 使用分页数据源：列表按总条数排布，滚动到哪里加载哪一页
+   * 未加载页中的子项显示占位（renderPlaceholderFn），renderItemFn 中通过 source.getItem 取数据
+   * @param source 数据源，传 null 取消
+   * @param totalCount 服务端返回的总条数
+   */
+  public setDataSource(source: PagedDataSource | null, totalCount: number) {
+    this._getContentNode();
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 setDataSource');
+      return;
+    }
+    if (this._dataSource) {
+      this._dataSource.onPageLoaded = null;
+      this._dataSource.isPageInUse = null;
+    }
+    this._dataSource = source;
+    if (source) {
+      source.onPageLoaded = (page: number) => this._onPageLoaded(source, page);
+      source.isPageInUse = (page: number) => this._isPageInUse(source, page);
+    }
+    this.setTotalCount(totalCount);
+    this._requestVisiblePages();
+  }
+
+  public getDataSource(): PagedDataSource | null {
+    return this._dataSource;
+  }
+
+  /** 加载当前视口内的数据页 */
+  private _requestVisiblePages() {
+    if (!this._dataSource || this.totalCount === 0) return;
+    const range = this.getVisibleRange();
+    // 循环模式下范围可能跨过末尾
+    if (range.end < range.start) {
+      this._dataSource.ensureRange(range.start, this.totalCount - 1);
+      this._dataSource.ensureRange(0, range.end);
+    } else {
+      this._dataSource.ensureRange(range.start, range.end);
+    }
+  }
+
+  /** 数据页是否仍有槽位在显示（包括视口外的缓冲槽位），这样的页不能被淘汰 */
+  private _isPageInUse(source: PagedDataSource, page: number): boolean {
+    for (let s = 0; s < this._slots; s++) {
+      const idx = this._slotFirstIndex + s;
+      if (!this._slotNodes[s] || !this._isIndexInRange(idx)) continue;
+      if (source.getPageOf(this._wrapIndex(idx)) === page) return true;
+    }
+    return false;
+  }
+
+  /** 某页加载完成：只刷新该页中正在显示的子项，不等大小模式下重新测量 */
+  private _onPageLoaded(source: PagedDataSource, page: number) {
+    if (source !== this._dataSource || !cc.isValid(this.node)) return;
+    const pageSize = Math.max(1, source.pageSize);
+    const start = page * pageSize;
+    const end = Math.min(this.totalCount, start + pageSize);
+    const measure = this.useDynamicSize && !this.getItemHeightFn;
+    for (let s = 0; s < this._slots; s++) {
+      const idx = this._slotFirstIndex + s;
+      const node = this._slotNodes[s];
+      if (!node || !this._isIndexInRange(idx)) continue;
+      const index = this._wrapIndex(idx);
+      if (index < start || index >= end) continue;
+      const pending = this._renderItem(node, index);
+      if (!measure) continue;
+      if (pending) {
+        pending.then(valid => {
+          if (valid) this._queueMeasure(node, index);
+        });
+      }
+      else this._queueMeasure(node, index);
+    }
+    // 加载期间视口可能已移动、缓存可能被淘汰或清空，补充请求视口内尚未加载的页
+    this._requestVisiblePages();
+  }
+
+  /**
+   * 切换布局，传 null 恢复内置排布；切换前后视口起点所在的数据项保持不动
+   * 自定义布局下不支持循环、分组、瀑布流和拖动排序
+   */
+  public setLayout(layout: VScrollLayout | null) {
+    this._getContentNode();
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 setLayout');
+      return;
+    }
+    if (layout && this._sectionCounts.length > 0) {
+      console.warn('[VScrollView] 分组模式不支持自定义布局');
+      return;
+    }
+    // 尚未初始化时在 start 中生效
+    if (this._slots === 0) {
+      this.layout = layout;
+      return;
+    }
+    const anchor = this._captureAnchor();
+    this.layout = layout;
+    this._layoutCtx = null;
+    if (this.useDynamicSize) {
+      this._buildPrefixSum();
+      this._expandSlotsIfNeeded();
+    } else {
+      this._recomputeContentSize();
+      const visibleLines = Math.ceil(this._viewportSize / (this.itemMainSize + this.spacing));
+      this._appendSlots(layout ? this._getLayoutSlotCount() : (visibleLines + this.buffer + 2) * this.gridCount);
+    }
+    this._restoreAnchor(anchor);
+  }
+
+  /**
+   * 设置分组：每组的条目数，总条数为各组之和
+   * 分组头通过 sectionHeaderPrefab（或 itemPrefabs[sectionHeaderTypeIndex]）创建，由 renderSectionHeaderFn 渲染
+   * @param itemCounts 每组条目数，传空数组取消分组
+   */
+  public setSections(itemCounts: number[]) {
+    this._getContentNode();
+    if (!this.useVirtualList) {
+      console.warn('[VirtualScrollView] 简单滚动模式不支持 setSections');
+      return;
+    }
+    if (!this._assignSections(itemCounts)) return;
+    let total = 0;
+    for (const c of this._sectionCounts) total += c;
+    this.setTotalCount(this._sectionCounts.length > 0 ? total : this.totalCount);
+  }
+
+  /** 替换分组，当前模式不支持分组时返回 false 并保留原分组 */
+  private _assignSections(itemCounts: number[]): boolean {
+    if (this.loopMode && itemCounts.length > 0) {
+      console.warn('[VScrollView] 循环模式不支持分组');
+      return false;
+    }
+    if (this._isWaterfall() && itemCounts.length > 0) {
+      console.warn('[VScrollView] 瀑布流不支持分组');
+      return false;
+    }
+    if (this.layout && itemCounts.length > 0) {
+      console.warn('[VScrollView] 自定义布局不支持分组');
+      return false;
+    }
+    this._clearSectionHeaders();
+    this._sectionCounts = itemCounts.map(c => Math.max(0, c | 0));
+    this._rebuildSectionIndex();
+    if (this._sectionCounts.length > 0 && !this._ensureSectionHeaderPool()) {
+      this._sectionCounts = [];
+      this._rebuildSectionIndex();
+    }
+    return true;
+  }
+
+  /** 数据索引所在的分组，未分组时返回 -1 */
+  public getSectionOfIndex(index: number): number {
+    if (this._sectionCounts.length === 0) return -1;
+    let l = 0,
+      r = this._sectionFirstIndex.length - 1,
+      ans = 0;
+    while (l <= r) {
+      const m = (l + r) >> 1;
+      if (this._sectionFirstIndex[m] <= index) {
+        ans = m;
+        l = m + 1;
+      } else {
+        r = m - 1;
+      }
+    }
+    return ans;
+  }
+
+  /** 滚动到指定分组的分组头 */
+  public scrollToSection(section: number, animate = false) {
+    if (this._sectionCounts.length === 0) return;
+    section = clamp(section | 0, 0, this._sectionCounts.length - 1);
+    this._scrollToPosition(this._offsetToContentPos(this._sectionStarts[section]), animate);
+  }
+
+  private _rebuildSectionIndex() {
+    const n = this._sectionCounts.length;
+    this._sectionFirstIndex = new Array(n);
+    this._sectionStarts = new Array(n).fill(0);
+    let acc = 0;
+    for (let s = 0; s < n; s++) {
+      this._sectionFirstIndex[s] = acc;
+      acc += this._sectionCounts[s];
+    }
+  }
+
+  /** 总条数与分组不一致时取消分组 */
+  private _validateSections() {
+    if (this._sectionCounts.length === 0) return;
+    let total = 0;
+    for (const c of this._sectionCounts) total += c;
+    if (total === this.totalCount) return;
+    console.warn(`[VScrollView] 分组条目总数 ${total} 与总条数 ${this.totalCount} 不一致，已取消分组，请在更新数据时一并传入新的分组`);
+    this._clearSectionHeaders();
+    this._sectionCounts = [];
+    this._rebuildSectionIndex();
+  }
+
+  private _ensureSectionHeaderPool(): boolean {
+    if (this._sectionHeaderPool) return true;
+    const prefab = this.sectionHeaderPrefab || this.itemPrefabs[this.sectionHeaderTypeIndex] || this.itemPrefab;
+    if (!prefab) {
+      console.error('[VScrollView] 分组模式需要提供 sectionHeaderPrefab');
+      return false;
+    }
+    this._sectionHeaderPool = new InternalNodePool([prefab]);
+    // 采样分组头尺寸，采样节点直接放回池中复用
+    const sample = this._sectionHeaderPool.get(0);
+    this._sectionHeaderSize = this._getNodeMainSize(sample);
+    this._sectionHeaderPool.put(sample, 0);
+    return true;
+  }
+
+  private _clearSectionHeaders() {
+    if (this._sectionHeaderPool) {
+      this._sectionHeaderNodes.forEach(node => this._sectionHeaderPool!.put(node, 0));
+    }
+    this._sectionHeaderNodes.clear();
+  }
+
+  /** 视口起点所在的分组 */
+  private _getSectionAtOffset(offset: number): number {
+    let l = 0,
+      r = this._sectionStarts.length - 1,
+      ans = 0;
+    while (l <= r) {
+      const m = (l + r) >> 1;
+      if (this._sectionStarts[m] <= offset) {
+        ans = m;
+        l = m + 1;
+      } else {
+        r = m - 1;
+      }
+    }
+    return ans;
+  }
+
+  /** 网格在副方向上的总尺寸 */
+  private _getGridCrossSize(): number {
+    return this.gridCount * this.itemCrossSize + (this.gridCount - 1) * this.gridSpacing;
+  }
+
+  /** 摆放视口内的分组头，当前分组的分组头吸附在视口起始边 */
+  private _updateSectionHeaders(force: boolean) {
+    const sectionCount = this._sectionCounts.length;
+    if (sectionCount === 0 || !this._sectionHeaderPool || !this.content) return;
+    const leading = this._getLeadingOffset();
+    const headerSize = this._sectionHeaderSize;
+    const viewStart = this._getScrollOffset() - leading;
+    const viewEnd = viewStart + this._viewportSize;
+    const first = this._getSectionAtOffset(viewStart);
+    let last = first;
+    while (last + 1 < sectionCount && this._sectionStarts[last + 1] < viewEnd) last++;
+    // 网格模式下分组头横跨所有列，不等高网格的各列铺满视口
+    let crossSize = 0;
+    if (!this.useDynamicSize) crossSize = this._getGridCrossSize();
+    else if (this._isMultiColumnDynamic()) crossSize = this._isVertical() ? this._viewportTf.width : this._viewportTf.height;
+
+    this._sectionHeaderNodes.forEach((node, section) => {
+      if (section < first || section > last) {
+        this._sectionHeaderPool!.put(node, 0);
+        this._sectionHeaderNodes.delete(section);
+      }
+    });
+    for (let s = first; s <= last; s++) {
+      let node = this._sectionHeaderNodes.get(s);
+      const isNew = !node;
+      if (!node) {
+        node = this._sectionHeaderPool.get(0);
+        node.parent = this.content;
+        node.zIndex = cc.macro.MAX_ZINDEX;
+        this._sectionHeaderNodes.set(s, node);
+      }
+      let start = this._sectionStarts[s];
+      if (s === first && this.stickySectionHeader && viewStart > start) {
+        start = viewStart;
+        // 下一个分组头到达时将当前分组头推出
+        if (s + 1 < sectionCount) start = Math.min(start, this._sectionStarts[s + 1] - headerSize);
+      }
+      if (crossSize > 0) {
+        const size = node.getContentSize();
+        if (this._isVertical()) node.setContentSize(crossSize, size.height);
+        else node.setContentSize(size.width, crossSize);
+      }
+      this._placeNodeMain(node, start + leading, headerSize, 0);
+      if ((isNew || force) && this.renderSectionHeaderFn) this.renderSectionHeaderFn(node, s);
+    }
+  }
+
   private _updateItemClickHandler(node: cc.Node, index: number) {
     if (!this.useVirtualList) return;
     let itemScript = node.getComponent(VScrollViewItem);
     if (!itemScript) itemScript = node.addComponent(VScrollViewItem);
     this._initSortLayerFlag ? itemScript.onSortLayer() : itemScript.offSortLayer();
-    itemScript.useItemClickEffect = this.onItemClickFn ? true : false;
+    // 位置效果会改写缩放，此时不使用按下缩放效果
+    itemScript.useItemClickEffect =
+      (this.onItemClickFn || this.selectionMode !== SelectionMode.NONE) && !this._hasItemTransform() ? true : false;
     if (!itemScript.onClickCallback) {
-      itemScript.onClickCallback = (idx: number) => {
-        if (this.onItemClickFn) this.onItemClickFn(node, idx);
+      itemScript.onClickCallback = (idx: number) => this._onItemClicked(node, idx);
+    }
+    itemScript.clickThreshold = this.clickThreshold;
+    itemScript.moveThreshold = this.moveThreshold;
+    const longPress = (this.enableReorder && !this.loopMode) || !!this.onItemLongPressFn || this._hasListener(VScrollViewEvent.ITEM_LONG_PRESS);
+    itemScript.longPressDuration = longPress ? this.longPressTime : 0;
+    const doubleTap = !!this.onItemDoubleTapFn || this._hasListener(VScrollViewEvent.ITEM_DOUBLE_TAP);
+    itemScript.doubleTapInterval = doubleTap ? this.doubleTapInterval : 0;
+    if (!itemScript.onLongPressCallback) {
+      const script = itemScript;
+      itemScript.onLongPressCallback = (idx: number) => {
+        if (this.onItemLongPressFn) this.onItemLongPressFn(node, idx);
+        this._emit(VScrollViewEvent.ITEM_LONG_PRESS, node, idx);
+        this._beginReorder(node, idx);
+      };
+      itemScript.onDoubleTapCallback = (idx: number) => {
+        if (this.onItemDoubleTapFn) this.onItemDoubleTapFn(node, idx);
+        this._emit(VScrollViewEvent.ITEM_DOUBLE_TAP, node, idx);
+      };
+      itemScript.onPressCallback = (idx: number) => {
+        this._pressedItem = script;
+        if (this.onItemPressFn) this.onItemPressFn(node, idx);
+        this._emit(VScrollViewEvent.ITEM_PRESS, node, idx);
+      };
+      itemScript.onReleaseCallback = (idx: number) => {
+        if (this._pressedItem === script) this._pressedItem = null;
+        if (this.onItemReleaseFn) this.onItemReleaseFn(node, idx);
+        this._emit(VScrollViewEvent.ITEM_RELEASE, node, idx);
       };
     }
+    const swipe = this.enableSwipeActions && this._isVertical();
+    itemScript.leftActionWidth = swipe ? this.swipeLeftActionWidth : 0;
+    itemScript.rightActionWidth = swipe ? this.swipeRightActionWidth : 0;
+    itemScript.fullSwipeEnabled = this.fullSwipeTrigger;
+    itemScript.swipeContentName = this.swipeContentNodeName;
+    if (!itemScript.onSwipeBeganCallback) {
+      const script = itemScript;
+      itemScript.onSwipeBeganCallback = () => this._onItemSwipeBegan(script);
+      itemScript.onSwipeStateCallback = (idx: number, side: SwipeSide) => this._onItemSwipeStateChanged(script, idx, side);
+      itemScript.onFullSwipeCallback = (idx: number, side: SwipeSide) => {
+        if (this.onItemFullSwipeFn) this.onItemFullSwipeFn(node, idx, side);
+        this._emit(VScrollViewEvent.ITEM_FULL_SWIPE, node, idx, side);
+      };
+    }
+    // 节点改为显示其他数据时收起操作区，避免打开状态出现在别的行上
+    if (itemScript.dataIndex !== index) {
+      itemScript.resetSwipe();
+      if (this._openSwipeItem === itemScript) this._openSwipeItem = null;
+    }
     itemScript.setDataIndex(index);
   }
 
+  /**
+   * 数据增删、移动或整体刷新前调用：显示 [first, last] 内数据的节点之后会改为显示其他数据，
+   * 立即复位其操作区（包括正在打开或收起中的），避免打开状态留在别的数据上
+   */
+  private _resetSwipes(first: number, last: number = Infinity) {
+    for (let s = 0; s < this._slots; s++) {
+      const node = this._slotNodes[s];
+      const item = node ? node.getComponent(VScrollViewItem) : null;
+      if (!item || item.dataIndex < first || item.dataIndex > last) continue;
+      item.resetSwipe();
+      if (this._openSwipeItem === item) this._openSwipeItem = null;
+    }
+  }
+
+  /** 收起当前打开操作区的子项 */
+  public closeSwipedItem() {
+    if (!this._openSwipeItem) return;
+    const item = this._openSwipeItem;
+    this._openSwipeItem = null;
+    if (item.isValid) item.closeSwipe();
+  }
+
+  /** 子项开始左右滑动：收起其他行，并撤销本次触摸已产生的列表滚动 */
+  private _onItemSwipeBegan(item: VScrollViewItem) {
+    if (this._openSwipeItem !== item) this.closeSwipedItem();
+    if (!this._isTouching) return;
+    this._isTouching = false;
+    this._velocity = 0;
+    this._velSamples.length = 0;
+    if (this._getContentMainPos() !== this._touchDownContentPos) {
+      this._setContentMainPos(this._touchDownContentPos);
+      this._updateVisible(false);
+    }
+    this._endScrolling();
+  }
+
+  private _onItemSwipeStateChanged(item: VScrollViewItem, index: number, side: SwipeSide) {
+    if (side === SwipeSide.NONE) {
+      if (this._openSwipeItem === item) this._openSwipeItem = null;
+    } else {
+      if (this._openSwipeItem && this._openSwipeItem !== item) this.closeSwipedItem();
+      this._openSwipeItem = item;
+    }
+    if (this.onItemSwipeStateChangeFn) this.onItemSwipeStateChangeFn(item.node, index, side);
+    this._emit(VScrollViewEvent.ITEM_SWIPE_STATE_CHANGED, item.node, index, side);
+  }
+
+  /** 按下的位置不在已打开的行上时收起该行 */
+  private _closeSwipeOnOutsideTouch(target: cc.Node | null) {
+    if (!this._openSwipeItem) return;
+    for (let n = target; n && n !== this.node; n = n.parent) {
+      if (n === this._openSwipeItem.node) return;
+    }
+    this.closeSwipedItem();
+  }
+
   private _layoutSlots(firstIndex: number, forceRender: boolean) {
     if (!this.useVirtualList) return;
     for (let s = 0; s < this._slots; s++) {
       const idx = firstIndex + s;
       const node = this._slotNodes[s];
-      if (idx >= this.totalCount) {
-        if (node) node.active = false;
+      if (!this._isIndexInRange(idx)) {
+        this._hideSlotNode(node);
       } else {
-        this._layoutSingleSlot(node, idx, s);
+        this._layoutSingleSlot(node, idx, s, forceRender);
       }
     }
   }
@@ -1350,9 +4447,23 @@ export class VirtualScrollView extends cc.Component {
       return;
     }
     if (this.useDynamicSize) return;
+    if (this.layout) {
+      this._rebuildLayout();
+      if (this._slots > 0) this._expandSlotsIfNeeded();
+      return;
+    }
     const stride = this.itemMainSize + this.spacing;
-    const totalLines = Math.ceil(this.totalCount / this.gridCount);
-    this._contentSize = totalLines > 0 ? totalLines * stride - this.spacing : 0;
+    if (this._sectionCounts.length > 0) {
+      let acc = 0;
+      for (let s = 0; s < this._sectionCounts.length; s++) {
+        this._sectionStarts[s] = acc;
+        acc += this._sectionHeaderSize + Math.ceil(this._sectionCounts[s] / this.gridCount) * stride + this.spacing;
+      }
+      this._contentSize = acc - this.spacing;
+    } else {
+      const totalLines = Math.ceil(this.totalCount / this.gridCount);
+      this._contentSize = totalLines > 0 ? totalLines * stride - this.spacing : 0;
+    }
     this._setContentMainSize(Math.max(this._contentSize, this._viewportSize));
     if (this._isVertical()) {
       this._boundsMin = 0;
@@ -0,0 +1,416 @@
+// 不依赖引擎的纯逻辑，可脱离 Cocos 单独测试
+export const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/** applyData 的差异结果 */
+export interface DataDiffResult {
+  inserted: number[]; // 新增项（新数据中的索引）
+  removed: number[]; // 删除项（旧数据中的索引）
+  moved: { from: number; to: number }[]; // 相对顺序发生变化的项
+  changed: number[]; // key 相同但内容变更的项（新数据中的索引）
+}
+
+/**
+ * 按 key 对比新旧数据，计算插入、删除、移动、变更
+ * @returns oldIndexOf: 新索引 -> 旧索引（-1 表示新增）；newIndexOf: 旧索引 -> 新索引（-1 表示删除）
+ */
+export function diffKeyedData(
+  oldKeys: any[],
+  newKeys: any[],
+  oldData: any[],
+  newData: any[],
+  isSame: (oldItem: any, newItem: any) => boolean
+): { result: DataDiffResult; oldIndexOf: number[]; newIndexOf: number[] } {
+  const keyToOld = new Map<any, number>();
+  for (let i = 0; i < oldKeys.length; i++) {
+    if (!keyToOld.has(oldKeys[i])) keyToOld.set(oldKeys[i], i);
+  }
+  const result: DataDiffResult = { inserted: [], removed: [], moved: [], changed: [] };
+  const oldIndexOf: number[] = new Array(newKeys.length);
+  const newIndexOf: number[] = new Array(oldKeys.length).fill(-1);
+  for (let i = 0; i < newKeys.length; i++) {
+    const oldIdx = keyToOld.get(newKeys[i]);
+    if (oldIdx === undefined) {
+      oldIndexOf[i] = -1;
+      result.inserted.push(i);
+      continue;
+    }
+    // 重复 key 只匹配一次，之后的视为新增
+    keyToOld.delete(newKeys[i]);
+    oldIndexOf[i] = oldIdx;
+    newIndexOf[oldIdx] = i;
+    if (!isSame(oldData[oldIdx], newData[i])) result.changed.push(i);
+  }
+  for (let i = 0; i < oldKeys.length; i++) {
+    if (newIndexOf[i] < 0) result.removed.push(i);
+  }
+  // 保留项中不在最长递增子序列里的视为移动
+  const kept: number[] = [];
+  for (let i = 0; i < newKeys.length; i++) if (oldIndexOf[i] >= 0) kept.push(i);
+  const tails: number[] = [];
+  const prev: number[] = new Array(kept.length).fill(-1);
+  for (let k = 0; k < kept.length; k++) {
+    const v = oldIndexOf[kept[k]];
+    let l = 0,
+      r = tails.length;
+    while (l < r) {
+      const m = (l + r) >> 1;
+      if (oldIndexOf[kept[tails[m]]] < v) l = m + 1;
+      else r = m;
+    }
+    if (l > 0) prev[k] = tails[l - 1];
+    tails[l] = k;
+  }
+  const stable = new Set<number>();
+  for (let k = tails.length > 0 ? tails[tails.length - 1] : -1; k >= 0; k = prev[k]) stable.add(kept[k]);
+  for (const i of kept) {
+    if (!stable.has(i)) result.moved.push({ from: oldIndexOf[i], to: i });
+  }
+  return { result, oldIndexOf, newIndexOf };
+}
+
+/** 在 index 处删除 removeCount 个、插入 insertCount 个索引后，返回迁移后的索引集合 */
+export function spliceIndexSet(set: Set<number>, index: number, removeCount: number, insertCount: number): Set<number> {
+  const result = new Set<number>();
+  set.forEach(i => {
+    if (i < index) result.add(i);
+    else if (i >= index + removeCount) result.add(i - removeCount + insertCount);
+  });
+  return result;
+}
+
+/** 在数组的 index 处插入 count 个 value，逐项后移而不展开参数，条数很多时也不会超出调用栈 */
+export function insertFill<T>(array: T[], index: number, count: number, value: T) {
+  if (count <= 0) return;
+  const oldLength = array.length;
+  array.length = oldLength + count;
+  for (let i = oldLength - 1; i >= index; i--) array[i + count] = array[i];
+  for (let i = index; i < index + count; i++) array[i] = value;
+}
+
+/** 将 from 处的一项移动到 to 后，原索引 index 对应的新索引 */
+export function moveIndex(index: number, from: number, to: number): number {
+  if (index === from) return to;
+  if (from < to && index > from && index <= to) return index - 1;
+  if (to < from && index >= to && index < from) return index + 1;
+  return index;
+}
+
+export function moveIndexSet(set: Set<number>, from: number, to: number): Set<number> {
+  const result = new Set<number>();
+  set.forEach(i => result.add(moveIndex(i, from, to)));
+  return result;
+}
+
+/** saveState 保存的滚动状态，可直接 JSON 序列化 */
+export interface VScrollViewState {
+  index: number; // 视口起点所在的数据项
+  key?: string | number; // 该项的 key（通过 applyData 维护 key 时记录），恢复时优先按 key 查找
+  offset: number; // 视口起点在该项内的像素偏移
+  cycle?: number; // 循环模式下所在的轮次
+  atEnd?: boolean; // 聊天模式下是否停在末尾
+  sizes?: number[]; // 不等大小模式下已测量的尺寸
+}
+
+/**
+ * 由 saveState 保存的状态求恢复位置：有 key 时优先按 key 查找数据项，
+ * 索引限制在数据范围内，项变小时项内偏移不超出该项
+ * @param keys 当前数据的 key（未维护 key 时为 null）
+ */
+export function resolveStateAnchor(
+  state: VScrollViewState,
+  keys: any[] | null,
+  count: number,
+  getItemSize: (index: number) => number
+): { index: number; offset: number; cycle: number } {
+  let index = state.index | 0;
+  if (state.key !== undefined && keys) {
+    const keyIndex = keys.indexOf(state.key);
+    if (keyIndex >= 0) index = keyIndex;
+  }
+  index = clamp(index, 0, Math.max(0, count - 1));
+  const offset = clamp(state.offset || 0, 0, Math.max(0, getItemSize(index)));
+  return { index, offset, cycle: state.cycle || 0 };
+}
+
+/** 布局计算所需的列表信息，由 VirtualScrollView 在重排时提供 */
+export interface VScrollLayoutContext {
+  vertical: boolean; // 是否纵向滚动
+  count: number; // 数据总数
+  viewportSize: number; // 视口主方向尺寸
+  viewportCrossSize: number; // 视口副方向尺寸
+  spacing: number; // 主方向间距
+  itemCrossSize: number; // 等大小模式下子项副方向尺寸，不等大小模式为 0
+  // 数据项在主方向上的尺寸（等大小模式为预制体尺寸，不等大小模式为已知或测量的尺寸）
+  getItemSize(index: number): number;
+}
+
+/** 数据项在 content 中的位置与尺寸 */
+export interface VScrollLayoutRect {
+  start: number; // 主方向起点（从列表起点算起，向后为正）
+  size: number; // 主方向尺寸
+  cross: number; // 副方向中心坐标（纵向为 x，横向为 y，以视口中心为 0）
+  crossSize?: number; // 副方向尺寸，不设置时保持节点原尺寸
+}
+
+/**
+ * 自定义布局：决定内容长度、每项的位置以及主方向区间内可见的索引。
+ * 可见项的索引须连续，列表按 getIndexRange 的结果回收复用节点
+ */
+export interface VScrollLayout {
+  // 数据数量、尺寸或视口变化后调用，可在此预计算
+  prepare?(ctx: VScrollLayoutContext): void;
+  // 内容在主方向上的总长度
+  getContentSize(ctx: VScrollLayoutContext): number;
+  getItemRect(ctx: VScrollLayoutContext, index: number): VScrollLayoutRect;
+  // 与主方向区间 [start, end) 相交的索引范围，end 为最后一项，没有时 end < start
+  getIndexRange(ctx: VScrollLayoutContext, start: number, end: number): { start: number; end: number };
+  // 滚动到第 index 项时的滚动偏移
+  getScrollOffset(ctx: VScrollLayoutContext, index: number): number;
+}
+
+/** 内置布局：等大小单列 */
+export class LinearLayout implements VScrollLayout {
+  /** @param itemSize 子项主方向尺寸，<= 0 时取第 0 项的尺寸 */
+  constructor(public itemSize: number = 0) {}
+
+  protected _getStride(ctx: VScrollLayoutContext): number {
+    return (this.itemSize > 0 ? this.itemSize : ctx.getItemSize(0)) + ctx.spacing;
+  }
+
+  protected _getLineCount(ctx: VScrollLayoutContext): number {
+    return ctx.count;
+  }
+
+  getContentSize(ctx: VScrollLayoutContext): number {
+    const lines = this._getLineCount(ctx);
+    return lines > 0 ? lines * this._getStride(ctx) - ctx.spacing : 0;
+  }
+
+  getItemRect(ctx: VScrollLayoutContext, index: number): VScrollLayoutRect {
+    const stride = this._getStride(ctx);
+    return { start: index * stride, size: stride - ctx.spacing, cross: 0 };
+  }
+
+  getIndexRange(ctx: VScrollLayoutContext, start: number, end: number): { start: number; end: number } {
+    const lines = this._getLineCount(ctx);
+    if (lines === 0) return { start: 0, end: -1 };
+    const stride = Math.max(1, this._getStride(ctx));
+    const first = clamp(Math.floor(start / stride), 0, lines - 1);
+    const last = clamp(Math.ceil(end / stride) - 1, first, lines - 1);
+    return { start: first, end: last };
+  }
+
+  getScrollOffset(ctx: VScrollLayoutContext, index: number): number {
+    return this.getItemRect(ctx, index).start;
+  }
+}
+
+/** 内置布局：等大小网格，纵向按行排列（横向按列），整体在副方向居中 */
+export class GridLayout extends LinearLayout {
+  /**
+   * @param columns 每行个数（横向模式为每列个数）
+   * @param crossSpacing 副方向间距
+   * @param itemSize 子项主方向尺寸，<= 0 时取第 0 项的尺寸
+   */
+  constructor(public columns: number = 2, public crossSpacing: number = 8, itemSize: number = 0) {
+    super(itemSize);
+  }
+
+  protected _getLineCount(ctx: VScrollLayoutContext): number {
+    return Math.ceil(ctx.count / Math.max(1, this.columns));
+  }
+
+  getItemRect(ctx: VScrollLayoutContext, index: number): VScrollLayoutRect {
+    const cols = Math.max(1, this.columns);
+    const stride = this._getStride(ctx);
+    // 未知子项副方向尺寸时平分视口
+    const cell = ctx.itemCrossSize > 0 ? ctx.itemCrossSize : (ctx.viewportCrossSize - (cols - 1) * this.crossSpacing) / cols;
+    const total = cols * cell + (cols - 1) * this.crossSpacing;
+    const offset = (index % cols) * (cell + this.crossSpacing) + cell / 2 - total / 2;
+    return {
+      start: Math.floor(index / cols) * stride,
+      size: stride - ctx.spacing,
+      cross: ctx.vertical ? offset : -offset,
+      crossSize: cell,
+    };
+  }
+
+  getIndexRange(ctx: VScrollLayoutContext, start: number, end: number): { start: number; end: number } {
+    const cols = Math.max(1, this.columns);
+    const lines = super.getIndexRange(ctx, start, end);
+    if (lines.end < lines.start) return lines;
+    return { start: lines.start * cols, end: Math.min(ctx.count - 1, (lines.end + 1) * cols - 1) };
+  }
+}
+
+/** 内置布局：不等大小单列，按各项尺寸累加 */
+export class DynamicLayout implements VScrollLayout {
+  private _starts: number[] = [];
+  private _contentSize = 0;
+
+  prepare(ctx: VScrollLayoutContext) {
+    this._starts = new Array(ctx.count);
+    let acc = 0;
+    for (let i = 0; i < ctx.count; i++) {
+      this._starts[i] = acc;
+      acc += ctx.getItemSize(i) + ctx.spacing;
+    }
+    this._contentSize = ctx.count > 0 ? acc - ctx.spacing : 0;
+  }
+
+  getContentSize(ctx: VScrollLayoutContext): number {
+    return this._contentSize;
+  }
+
+  getItemRect(ctx: VScrollLayoutContext, index: number): VScrollLayoutRect {
+    return { start: this._starts[index] || 0, size: ctx.getItemSize(index), cross: 0 };
+  }
+
+  getIndexRange(ctx: VScrollLayoutContext, start: number, end: number): { start: number; end: number } {
+    const n = this._starts.length;
+    if (n === 0) return { start: 0, end: -1 };
+    // 起点不大于 start 的最后一项，以及起点小于 end 的最后一项
+    const first = Math.max(0, this._lastStartBefore(start, true));
+    const last = Math.max(first, this._lastStartBefore(end, false));
+    return { start: first, end: Math.min(last, n - 1) };
+  }
+
+  getScrollOffset(ctx: VScrollLayoutContext, index: number): number {
+    return this._starts[index] || 0;
+  }
+
+  private _lastStartBefore(pos: number, inclusive: boolean): number {
+    let l = 0,
+      r = this._starts.length - 1,
+      ans = -1;
+    while (l <= r) {
+      const m = (l + r) >> 1;
+      if (this._starts[m] < pos || (inclusive && this._starts[m] === pos)) {
+        ans = m;
+        l = m + 1;
+      } else {
+        r = m - 1;
+      }
+    }
+    return ans;
+  }
+}
+
+// 分页数据源：加载第 page 页（从 0 开始），返回该页的数据
+export type FetchPageFn = (page: number) => Promise<any[]>;
+
+/**
+ * 按页加载的稀疏数据源：列表只需知道总条数，滚动到哪里加载哪一页。
+ * 已加载的页按最近使用顺序缓存，超出上限时淘汰最久未使用的页（列表视口内的页不淘汰）
+ */
+export class PagedDataSource {
+  // 某页加载完成回调（由 VirtualScrollView 注入）
+  public onPageLoaded: ((page: number) => void) | null = null;
+  // 缓存超出上限时判断某页是否仍在使用，在用的页不会被淘汰（由 VirtualScrollView 注入）
+  public isPageInUse: ((page: number) => boolean) | null = null;
+  // 某页重试后仍加载失败的回调，可在其中提示用户，之后调用 reload 重新加载
+  public onPageError: ((page: number, err: any) => void) | null = null;
+  // 加载失败时自动重试的次数
+  public maxRetries = 2;
+  // 第一次重试前等待的毫秒数，之后每次重试等待时间翻倍
+  public retryDelay = 500;
+  // Map 的遍历顺序即最近使用顺序，最早的在前
+  private _pages: Map<number, any[]> = new Map();
+  private _loading: Set<number> = new Set();
+  private _version = 0; // clear 后丢弃之前发出的请求结果
+
+  /**
+   * @param fetchPage 加载一页数据
+   * @param pageSize 每页条数
+   * @param maxCachedPages 最多缓存的页数
+   */
+  constructor(public fetchPage: FetchPageFn, public pageSize: number = 20, public maxCachedPages: number = 10) {}
+
+  public getPageOf(index: number): number {
+    return Math.floor(index / Math.max(1, this.pageSize));
+  }
+
+  public isLoaded(index: number): boolean {
+    return this._pages.has(this.getPageOf(index));
+  }
+
+  /** 取第 index 条数据，所在页未加载时返回 undefined */
+  public getItem(index: number): any {
+    const page = this.getPageOf(index);
+    const items = this._touch(page);
+    return items ? items[index - page * Math.max(1, this.pageSize)] : undefined;
+  }
+
+  /** 加载 [start, end] 范围内尚未加载的页，已加载的页标记为最近使用 */
+  public ensureRange(start: number, end: number) {
+    if (end < start) return;
+    const last = this.getPageOf(end);
+    for (let page = this.getPageOf(Math.max(0, start)); page <= last; page++) {
+      if (!this._touch(page) && !this._loading.has(page)) this._load(page);
+    }
+  }
+
+  /** 重新加载某页（如加载失败后用户点击重试），已在加载中时忽略 */
+  public reload(page: number) {
+    if (page < 0 || this._loading.has(page)) return;
+    this._pages.delete(page);
+    this._load(page);
+  }
+
+  /** 丢弃全部缓存，未完成的请求结果也不再使用 */
+  public clear() {
+    this._pages.clear();
+    this._loading.clear();
+    this._version++;
+  }
+
+  private _touch(page: number): any[] | undefined {
+    const items = this._pages.get(page);
+    if (items) {
+      this._pages.delete(page);
+      this._pages.set(page, items);
+    }
+    return items;
+  }
+
+  private async _load(page: number) {
+    const version = this._version;
+    this._loading.add(page);
+    let items: any[];
+    for (let attempt = 0; ; attempt++) {
+      try {
+        items = await this.fetchPage(page);
+        break;
+      } catch (err) {
+        if (version !== this._version) return;
+        if (attempt < this.maxRetries) {
+          await new Promise(resolve => setTimeout(resolve, this.retryDelay * Math.pow(2, attempt)));
+          if (version !== this._version) return;
+          continue;
+        }
+        this._loading.delete(page);
+        console.error(`[VScrollView] 第 ${page} 页加载失败`, err);
+        if (this.onPageError) this.onPageError(page, err);
+        return;
+      }
+    }
+    if (version !== this._version) return;
+    this._loading.delete(page);
+    this._pages.set(page, items || []);
+    this._evict(page);
+    if (this.onPageLoaded) this.onPageLoaded(page);
+  }
+
+  /** 超出缓存上限时从最久未使用的页开始淘汰，跳过刚加载的页和仍在使用的页 */
+  private _evict(loadedPage: number) {
+    const excess = this._pages.size - Math.max(1, this.maxCachedPages);
+    if (excess <= 0) return;
+    const evicted: number[] = [];
+    this._pages.forEach((_, page) => {
+      if (evicted.length >= excess || page === loadedPage) return;
+      if (this.isPageInUse && this.isPageInUse(page)) return;
+      evicted.push(page);
+    });
+    for (const page of evicted) this._pages.delete(page);
+  }
+}
@@ -8,6 +8,13 @@ export function changeUISortingLayer(sortingNode: cc.Node, sortingLayer: number,
   // }
 }
 
+/** 左右滑动露出的操作区位置 */
+export enum SwipeSide {
+  NONE = 0, // 未打开
+  LEFT = 1, // 左侧操作区（向右滑露出）
+  RIGHT = 2, // 右侧操作区（向左滑露出）
+}
+
 /**
  * 挂载在每个 item 预制体的根节点上
  * 负责处理点击逻辑，通过回调通知父组件
@@ -17,16 +24,76 @@ export class VScrollViewItem extends cc.Component {
   /** 当前 item 对应的数据索引 */
   public dataIndex: number = -1;
 
+  /** 渲染代数：每次重新渲染或回收时递增，异步渲染完成时据此判断结果是否过期 */
+  public renderGeneration: number = 0;
+
   public useItemClickEffect: boolean = true;
 
   /** 点击回调（由 VirtualScrollView 注入） */
   public onClickCallback: ((index: number) => void) | null = null;
 
+  /** 点击判定距离：按下到松开移动小于该值才算点击，超过时取消长按 */
+  public clickThreshold: number = 10;
+
+  /** 按下后移动超过该距离立即取消按下效果 */
+  public moveThreshold: number = 40;
+
+  /** 长按触发时间（秒），小于等于 0 时不检测长按 */
+  public longPressDuration: number = 0;
+
+  /** 长按回调（由 VirtualScrollView 注入），按住期间触发，触发后本次触摸不再算作点击 */
+  public onLongPressCallback: ((index: number) => void) | null = null;
+
+  /** 双击最大间隔（秒），小于等于 0 时不检测双击 */
+  public doubleTapInterval: number = 0;
+
+  /** 双击回调（由 VirtualScrollView 注入），第二次点击不再触发 onClickCallback */
+  public onDoubleTapCallback: ((index: number) => void) | null = null;
+
+  /** 按下回调（由 VirtualScrollView 注入） */
+  public onPressCallback: ((index: number) => void) | null = null;
+
+  /** 松开或按下被取消（滑动、触摸取消、节点回收）时的回调，与 onPressCallback 成对出现 */
+  public onReleaseCallback: ((index: number) => void) | null = null;
+
+  /** 左侧操作区宽度，0 表示不能向右滑 */
+  public leftActionWidth: number = 0;
+
+  /** 右侧操作区宽度，0 表示不能向左滑 */
+  public rightActionWidth: number = 0;
+
+  /** 是否允许滑过整行直接触发操作 */
+  public fullSwipeEnabled: boolean = false;
+
+  /** 滑过整行宽度的多少比例后松手触发操作 */
+  public fullSwipeRatio: number = 0.5;
+
+  /** 跟随手指滑动的子节点名，操作按钮放在它后面 */
+  public swipeContentName: string = 'content';
+
+  /** 开始左右滑动回调（由 VirtualScrollView 注入），此后本次触摸不再滚动列表 */
+  public onSwipeBeganCallback: ((index: number) => void) | null = null;
+
+  /** 滑动打开/关闭回调（由 VirtualScrollView 注入），关闭时 side 为 NONE */
+  public onSwipeStateCallback: ((index: number, side: SwipeSide) => void) | null = null;
+
+  /** 滑过整行触发回调（由 VirtualScrollView 注入） */
+  public onFullSwipeCallback: ((index: number, side: SwipeSide) => void) | null = null;
+
   private _touchStartNode: cc.Node | null = null;
   private _isCanceled: boolean = false;
   private _startPos: cc.Vec2 = new cc.Vec2();
-  private _moveThreshold: number = 40; // 滑动阈值
-  private _clickThreshold: number = 10; // 点击阈值
+  private _longPressed: boolean = false;
+  private _pressed: boolean = false;
+  private _lastTapTime: number = 0; // 上次点击时间（毫秒），用于双击判断
+  private _lastTapIndex: number = -1;
+  private _swipeLock: number = 0; // 0 未确定方向 1 横向滑动 2 纵向（交给列表）
+  private _swipeContent: cc.Node | null = null;
+  private _swipeBaseX: number = 0; // 滑动内容节点的初始 x
+  private _swipeOffset: number = 0;
+  private _swipeStartOffset: number = 0;
+  private _swipeSide: SwipeSide = SwipeSide.NONE;
+  private _swipeTween: cc.Tween | null = null;
 
   onEnable() {
     // 一次性注册事件，生命周期内不变
@@ -46,6 +113,9 @@ export class VScrollViewItem extends cc.Component {
     this.node.off(cc.Node.EventType.TOUCH_MOVE, this._onTouchMove, this);
     this.node.off(cc.Node.EventType.TOUCH_END, this._onTouchEnd, this);
     this.node.off(cc.Node.EventType.TOUCH_CANCEL, this._onTouchCancel, this);
+    this.unschedule(this._onLongPress);
+    this.resetSwipe();
+    this._release();
   }
 
   /**
@@ -75,10 +145,36 @@ export class VScrollViewItem extends cc.Component {
     this.dataIndex = index;
   }
 
+  /** 取消本次按住尚未触发的长按（列表开始滚动时调用） */
+  public cancelLongPress() {
+    this.unschedule(this._onLongPress);
+  }
+
+  /** 当前打开的操作区 */
+  public getSwipeSide(): SwipeSide {
+    return this._swipeSide;
+  }
+
+  /** 以动画收起操作区 */
+  public closeSwipe() {
+    if (this._swipeOffset === 0 && this._swipeSide === SwipeSide.NONE) return;
+    this._tweenSwipeTo(0, () => this._setSwipeSide(SwipeSide.NONE));
+  }
+
+  /** 立即复位，不触发回调（节点被复用显示其他数据时调用） */
+  public resetSwipe() {
+    this._stopSwipeTween();
+    this._setSwipeOffset(0);
+    this._swipeSide = SwipeSide.NONE;
+    this._swipeLock = 0;
+  }
+
   private _onTouchStart(e: cc.Event.EventTouch) {
     // console.log("_onTouchStart");
     this._touchStartNode = this.node;
     this._isCanceled = false;
+    this._longPressed = false;
+    this._swipeLock = 0;
     const location = e.getLocation();
     this._startPos.set(location);
 
@@ -86,9 +182,18 @@ export class VScrollViewItem extends cc.Component {
     if (this.useItemClickEffect && this.node.children.length > 0) {
       this.node.setScale(0.95, 0.95);
     }
+
+    this.unschedule(this._onLongPress);
+    if (this.longPressDuration > 0 && this.onLongPressCallback) {
+      this.scheduleOnce(this._onLongPress, this.longPressDuration);
+    }
+
+    this._pressed = true;
+    if (this.onPressCallback) this.onPressCallback(this.dataIndex);
   }
 
   private _onTouchMove(e: cc.Event.EventTouch) {
+    if (this._handleSwipeMove(e)) return;
     if (this._isCanceled) return;
 
     const movePos = e.getLocation();
@@ -96,15 +201,25 @@ export class VScrollViewItem extends cc.Component {
     const dy = movePos.y - this._startPos.y;
     const dist = Math.sqrt(dx * dx + dy * dy);
 
+    // 手指移动后不再是长按
+    if (dist > this.clickThreshold) this.unschedule(this._onLongPress);
+
     // 超过阈值认为是滑动，取消点击
-    if (dist > this._moveThreshold) {
+    if (dist > this.moveThreshold) {
       this._isCanceled = true;
       this._restoreScale();
       this._touchStartNode = null;
+      this._release();
     }
   }
 
   private _onTouchEnd(e: cc.Event.EventTouch) {
+    this._release();
+    if (this._swipeLock === 1) {
+      this._settleSwipe();
+      this._reset();
+      return;
+    }
     if (this._isCanceled) {
       this._reset();
       return;
@@ -118,9 +233,17 @@ export class VScrollViewItem extends cc.Component {
     const dist = Math.sqrt(dx * dx + dy * dy);
 
     // 移动距离小于阈值才算点击
-    if (dist < this._clickThreshold && this._touchStartNode === this.node) {
-      if (this.onClickCallback) {
-        this.onClickCallback(this.dataIndex);
+    if (dist < this.clickThreshold && this._touchStartNode === this.node) {
+      if (this._swipeOffset !== 0) {
+        // 点击已打开的行只收起操作区
+        this.closeSwipe();
+      } else if (this._isDoubleTap()) {
+        this._lastTapTime = 0;
+        if (this.onDoubleTapCallback) this.onDoubleTapCallback(this.dataIndex);
+      } else {
+        this._lastTapTime = Date.now();
+        this._lastTapIndex = this.dataIndex;
+        if (this.onClickCallback) this.onClickCallback(this.dataIndex);
       }
     }
 
@@ -128,10 +251,132 @@ export class VScrollViewItem extends cc.Component {
   }
 
   private _onTouchCancel(e: cc.Event.EventTouch) {
+    this._release();
+    if (this._swipeLock === 1) this._settleSwipe();
     this._restoreScale();
     this._reset();
   }
 
+  private _onLongPress() {
+    if (this._isCanceled) return;
+    this._isCanceled = true;
+    this._longPressed = true;
+    this._restoreScale();
+    this._touchStartNode = null;
+    if (this.onLongPressCallback) this.onLongPressCallback(this.dataIndex);
+  }
+
+  /** 本次点击是否与上次点击构成双击（同一条数据、间隔足够短） */
+  private _isDoubleTap(): boolean {
+    if (this.doubleTapInterval <= 0 || !this.onDoubleTapCallback) return false;
+    return this._lastTapIndex === this.dataIndex && Date.now() - this._lastTapTime <= this.doubleTapInterval * 1000;
+  }
+
+  private _release() {
+    if (!this._pressed) return;
+    this._pressed = false;
+    if (this.onReleaseCallback) this.onReleaseCallback(this.dataIndex);
+  }
+
+  private _getSwipeContent(): cc.Node | null {
+    if (!this._swipeContent || !this._swipeContent.isValid) {
+      this._swipeContent = this.node.getChildByName(this.swipeContentName);
+      if (this._swipeContent) this._swipeBaseX = this._swipeContent.x;
+    }
+    return this._swipeContent;
+  }
+
+  private _isSwipeEnabled(): boolean {
+    return (this.leftActionWidth > 0 || this.rightActionWidth > 0) && !!this._getSwipeContent();
+  }
+
+  /** 处理左右滑动，返回 true 表示本次触摸已由滑动接管 */
+  private _handleSwipeMove(e: cc.Event.EventTouch): boolean {
+    if (this._swipeLock === 2 || this._longPressed || !this._isSwipeEnabled()) return false;
+    const movePos = e.getLocation();
+    const dx = movePos.x - this._startPos.x;
+    const dy = movePos.y - this._startPos.y;
+    if (this._swipeLock === 0) {
+      if (Math.sqrt(dx * dx + dy * dy) <= this.clickThreshold) return false;
+      // 先超过阈值的方向决定由谁处理本次触摸，纵向交给列表滚动
+      if (Math.abs(dx) <= Math.abs(dy)) {
+        this._swipeLock = 2;
+        this.closeSwipe();
+        return false;
+      }
+      this._swipeLock = 1;
+      this._isCanceled = true;
+      this._restoreScale();
+      this._touchStartNode = null;
+      this.unschedule(this._onLongPress);
+      this._release();
+      this._stopSwipeTween();
+      this._swipeStartOffset = this._swipeOffset;
+      if (this.onSwipeBeganCallback) this.onSwipeBeganCallback(this.dataIndex);
+    }
+    e.stopPropagation();
+    const width = this.node.width;
+    const max = this.leftActionWidth > 0 ? (this.fullSwipeEnabled ? width : this.leftActionWidth) : 0;
+    const min = this.rightActionWidth > 0 ? -(this.fullSwipeEnabled ? width : this.rightActionWidth) : 0;
+    this._setSwipeOffset(Math.max(min, Math.min(max, this._swipeStartOffset + dx)));
+    return true;
+  }
+
+  /** 松手后停到打开、关闭或整行触发的位置 */
+  private _settleSwipe() {
+    const offset = this._swipeOffset;
+    const side = offset > 0 ? SwipeSide.LEFT : offset < 0 ? SwipeSide.RIGHT : SwipeSide.NONE;
+    const actionWidth = offset > 0 ? this.leftActionWidth : this.rightActionWidth;
+    const width = this.node.width;
+    if (side !== SwipeSide.NONE && this.fullSwipeEnabled && Math.abs(offset) >= width * this.fullSwipeRatio) {
+      const index = this.dataIndex;
+      this._tweenSwipeTo(offset > 0 ? width : -width, () => {
+        // 触发的操作通常会删除该行，先复位以免节点被复用时仍处于滑出状态
+        this.resetSwipe();
+        this._setSwipeSide(SwipeSide.NONE);
+        if (this.onFullSwipeCallback) this.onFullSwipeCallback(index, side);
+      });
+    } else if (side !== SwipeSide.NONE && Math.abs(offset) >= actionWidth / 2) {
+      this._tweenSwipeTo(offset > 0 ? actionWidth : -actionWidth, () => this._setSwipeSide(side));
+    } else {
+      this._tweenSwipeTo(0, () => this._setSwipeSide(SwipeSide.NONE));
+    }
+  }
+
+  private _setSwipeSide(side: SwipeSide) {
+    if (this._swipeSide === side) return;
+    this._swipeSide = side;
+    if (this.onSwipeStateCallback) this.onSwipeStateCallback(this.dataIndex, side);
+  }
+
+  private _setSwipeOffset(offset: number) {
+    this._swipeOffset = offset;
+    const content = this._getSwipeContent();
+    if (content) content.x = this._swipeBaseX + offset;
+  }
+
+  private _tweenSwipeTo(offset: number, done: () => void) {
+    this._stopSwipeTween();
+    const state = { value: this._swipeOffset };
+    const duration = Math.min(0.25, 0.1 + Math.abs(offset - this._swipeOffset) / 2000);
+    this._swipeTween = cc
+      .tween(state)
+      .to(duration, { value: offset }, { easing: 'quadOut', onUpdate: () => this._setSwipeOffset(state.value) })
+      .call(() => {
+        this._swipeTween = null;
+        this._setSwipeOffset(offset);
+        done();
+      })
+      .start();
+  }
+
+  private _stopSwipeTween() {
+    if (this._swipeTween) {
+      this._swipeTween.stop();
+      this._swipeTween = null;
+    }
+  }
+
   private _restoreScale() {
     if (this.useItemClickEffect && this.node.children.length > 0) {
       this.node.setScale(1.0, 1.0);
@@ -139,6 +384,7 @@ export class VScrollViewItem extends cc.Component {
   }
 
   private _reset() {
+    this.unschedule(this._onLongPress);
     this._touchStartNode = null;
     this._isCanceled = false;
   }
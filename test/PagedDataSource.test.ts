@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PagedDataSource } from '../assets/vscrollview/VScrollViewCore';
+
+/** 每页数据为该页各项的全局索引 */
+function pageItems(page: number, pageSize: number): number[] {
+  return Array.from({ length: pageSize }, (_, i) => page * pageSize + i);
+}
+
+/** 等待已发出的 fetch 及其后续处理完成 */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PagedDataSource', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('按页加载范围内的数据，同一页只请求一次', async () => {
+    const fetchPage = vi.fn(async (page: number) => pageItems(page, 10));
+    const source = new PagedDataSource(fetchPage, 10);
+    const loaded: number[] = [];
+    source.onPageLoaded = page => loaded.push(page);
+    source.ensureRange(5, 25);
+    source.ensureRange(8, 12);
+    expect(fetchPage.mock.calls.map(c => c[0])).toEqual([0, 1, 2]);
+    expect(source.isLoaded(5)).toBe(false);
+    await flush();
+    expect(loaded).toEqual([0, 1, 2]);
+    expect(source.getItem(25)).toBe(25);
+    expect(source.getItem(35)).toBeUndefined();
+  });
+
+  it('超出缓存上限时淘汰最久未使用的页', async () => {
+    const source = new PagedDataSource(async page => pageItems(page, 10), 10, 2);
+    source.ensureRange(0, 19);
+    await flush();
+    // 访问第 0 页，使第 1 页成为最久未使用
+    source.getItem(0);
+    source.ensureRange(20, 29);
+    await flush();
+    expect(source.isLoaded(0)).toBe(true);
+    expect(source.isLoaded(10)).toBe(false);
+    expect(source.isLoaded(20)).toBe(true);
+  });
+
+  it('仍在使用的页不被淘汰', async () => {
+    const source = new PagedDataSource(async page => pageItems(page, 10), 10, 1);
+    source.isPageInUse = page => page === 0;
+    source.ensureRange(0, 9);
+    await flush();
+    source.ensureRange(10, 19);
+    await flush();
+    expect(source.isLoaded(0)).toBe(true);
+    expect(source.isLoaded(10)).toBe(true);
+    source.ensureRange(20, 29);
+    await flush();
+    expect(source.isLoaded(0)).toBe(true);
+    expect(source.isLoaded(10)).toBe(false);
+  });
+
+  it('加载失败时自动重试，成功后正常回调', async () => {
+    let failures = 2;
+    const fetchPage = vi.fn(async (page: number) => {
+      if (failures-- > 0) throw new Error('network');
+      return pageItems(page, 10);
+    });
+    const source = new PagedDataSource(fetchPage, 10);
+    source.retryDelay = 0;
+    const onError = vi.fn();
+    source.onPageError = onError;
+    source.ensureRange(0, 0);
+    for (let i = 0; i < 3; i++) await flush();
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(onError).not.toHaveBeenCalled();
+    expect(source.isLoaded(0)).toBe(true);
+  });
+
+  it('重试次数用完后回调 onPageError，之后可以 reload', async () => {
+    let fail = true;
+    const fetchPage = vi.fn(async (page: number) => {
+      if (fail) throw new Error('network');
+      return pageItems(page, 10);
+    });
+    const source = new PagedDataSource(fetchPage, 10);
+    source.maxRetries = 1;
+    source.retryDelay = 0;
+    const onError = vi.fn();
+    source.onPageError = onError;
+    source.ensureRange(0, 0);
+    for (let i = 0; i < 2; i++) await flush();
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(0, expect.any(Error));
+    expect(source.isLoaded(0)).toBe(false);
+    fail = false;
+    source.reload(0);
+    await flush();
+    expect(source.isLoaded(0)).toBe(true);
+  });
+
+  it('重试前等待的时间逐次翻倍', async () => {
+    vi.useFakeTimers();
+    const fetchPage = vi.fn(async (page: number): Promise<number[]> => {
+      throw new Error('network');
+    });
+    const source = new PagedDataSource(fetchPage, 10);
+    source.maxRetries = 2;
+    source.retryDelay = 100;
+    source.ensureRange(0, 0);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('等待重试期间 clear 后不再重试', async () => {
+    vi.useFakeTimers();
+    const fetchPage = vi.fn(async (page: number): Promise<number[]> => {
+      throw new Error('network');
+    });
+    const source = new PagedDataSource(fetchPage, 10);
+    source.retryDelay = 100;
+    source.ensureRange(0, 0);
+    await vi.advanceTimersByTimeAsync(50);
+    source.clear();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('clear 后丢弃之前发出的请求结果', async () => {
+    let resolve: (items: any[]) => void = () => {};
+    const source = new PagedDataSource(() => new Promise(r => (resolve = r)), 10);
+    const onLoaded = vi.fn();
+    source.onPageLoaded = onLoaded;
+    source.ensureRange(0, 0);
+    source.clear();
+    resolve(pageItems(0, 10));
+    await flush();
+    expect(source.isLoaded(0)).toBe(false);
+    expect(onLoaded).not.toHaveBeenCalled();
+  });
+});
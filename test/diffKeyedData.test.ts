@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { diffKeyedData } from '../assets/vscrollview/VScrollViewCore';
+
+const byRef = (a: any, b: any) => a === b;
+
+function diffKeys(oldKeys: any[], newKeys: any[]) {
+  return diffKeyedData(oldKeys, newKeys, oldKeys, newKeys, byRef);
+}
+
+describe('diffKeyedData', () => {
+  it('数据相同时没有任何变化', () => {
+    const { result, oldIndexOf, newIndexOf } = diffKeys(['a', 'b', 'c'], ['a', 'b', 'c']);
+    expect(result).toEqual({ inserted: [], removed: [], moved: [], changed: [] });
+    expect(oldIndexOf).toEqual([0, 1, 2]);
+    expect(newIndexOf).toEqual([0, 1, 2]);
+  });
+
+  it('识别新增与删除，并给出新旧索引映射', () => {
+    const { result, oldIndexOf, newIndexOf } = diffKeys(['a', 'b', 'c'], ['a', 'x', 'c', 'y']);
+    expect(result.inserted).toEqual([1, 3]);
+    expect(result.removed).toEqual([1]);
+    expect(result.moved).toEqual([]);
+    expect(oldIndexOf).toEqual([0, -1, 2, -1]);
+    expect(newIndexOf).toEqual([0, -1, 2]);
+  });
+
+  it('只把不在最长递增子序列中的项视为移动', () => {
+    const { result } = diffKeys(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c']);
+    expect(result.moved).toEqual([{ from: 3, to: 0 }]);
+  });
+
+  it('交换相邻两项时只移动其中一项', () => {
+    const { result } = diffKeys(['a', 'b', 'c'], ['b', 'a', 'c']);
+    expect(result.moved).toHaveLength(1);
+  });
+
+  it('逆序时最长递增子序列之外的项都视为移动', () => {
+    const { result } = diffKeys(['a', 'b', 'c'], ['c', 'b', 'a']);
+    // 最长递增子序列长度为 1，其余两项视为移动
+    expect(result.moved).toHaveLength(2);
+    expect(result.inserted).toEqual([]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('key 相同但内容变更时记入 changed', () => {
+    const oldData = [{ id: 1, v: 1 }, { id: 2, v: 1 }];
+    const newData = [{ id: 1, v: 1 }, { id: 2, v: 2 }];
+    const { result } = diffKeyedData(
+      oldData.map(d => d.id),
+      newData.map(d => d.id),
+      oldData,
+      newData,
+      (a, b) => a.v === b.v
+    );
+    expect(result.changed).toEqual([1]);
+    expect(result.moved).toEqual([]);
+  });
+
+  it('重复 key 只匹配一次，之后的视为新增', () => {
+    const { result, oldIndexOf } = diffKeys(['a', 'b'], ['a', 'a', 'b']);
+    expect(oldIndexOf).toEqual([0, -1, 1]);
+    expect(result.inserted).toEqual([1]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('空数据之间互相转换', () => {
+    expect(diffKeys([], ['a', 'b']).result.inserted).toEqual([0, 1]);
+    expect(diffKeys(['a', 'b'], []).result.removed).toEqual([0, 1]);
+  });
+});
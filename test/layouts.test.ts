@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { DynamicLayout, GridLayout, LinearLayout, VScrollLayoutContext } from '../assets/vscrollview/VScrollViewCore';
+
+function makeCtx(count: number, sizes: number[] | number, patch: Partial<VScrollLayoutContext> = {}): VScrollLayoutContext {
+  return {
+    vertical: true,
+    count,
+    viewportSize: 300,
+    viewportCrossSize: 200,
+    spacing: 10,
+    itemCrossSize: 0,
+    getItemSize: i => (typeof sizes === 'number' ? sizes : sizes[i]),
+    ...patch,
+  };
+}
+
+describe('LinearLayout', () => {
+  const layout = new LinearLayout();
+
+  it('内容长度为各项尺寸加间距，末项后不留间距', () => {
+    expect(layout.getContentSize(makeCtx(5, 50))).toBe(5 * 60 - 10);
+    expect(layout.getContentSize(makeCtx(0, 50))).toBe(0);
+  });
+
+  it('未指定尺寸时取第 0 项的尺寸', () => {
+    expect(layout.getItemRect(makeCtx(5, 50), 3)).toEqual({ start: 180, size: 50, cross: 0 });
+    expect(new LinearLayout(80).getItemRect(makeCtx(5, 50), 1)).toEqual({ start: 90, size: 80, cross: 0 });
+  });
+
+  it('可见范围覆盖与区间相交的全部项', () => {
+    const ctx = makeCtx(100, 50);
+    expect(layout.getIndexRange(ctx, 0, 300)).toEqual({ start: 0, end: 4 });
+    expect(layout.getIndexRange(ctx, 65, 125)).toEqual({ start: 1, end: 2 });
+  });
+
+  it('区间超出内容时限制在数据范围内，没有数据时 end < start', () => {
+    expect(layout.getIndexRange(makeCtx(3, 50), 100, 10000)).toEqual({ start: 1, end: 2 });
+    const empty = layout.getIndexRange(makeCtx(0, 50), 0, 300);
+    expect(empty.end).toBeLessThan(empty.start);
+  });
+});
+
+describe('GridLayout', () => {
+  it('按行排列，行数向上取整', () => {
+    const layout = new GridLayout(3, 8);
+    expect(layout.getContentSize(makeCtx(7, 50))).toBe(3 * 60 - 10);
+    expect(layout.getItemRect(makeCtx(7, 50), 4).start).toBe(60);
+  });
+
+  it('未知副方向尺寸时平分视口并整体居中', () => {
+    const layout = new GridLayout(2, 20);
+    const ctx = makeCtx(4, 50);
+    const left = layout.getItemRect(ctx, 0);
+    const right = layout.getItemRect(ctx, 1);
+    expect(left.crossSize).toBe(90);
+    expect(left.cross).toBe(-55);
+    expect(right.cross).toBe(55);
+  });
+
+  it('横向列表的副方向坐标取反', () => {
+    const layout = new GridLayout(2, 20);
+    expect(layout.getItemRect(makeCtx(4, 50, { vertical: false }), 0).cross).toBe(55);
+  });
+
+  it('可见范围按整行展开，末行不超出数据数量', () => {
+    const layout = new GridLayout(3, 8);
+    expect(layout.getIndexRange(makeCtx(7, 50), 65, 125)).toEqual({ start: 3, end: 6 });
+  });
+});
+
+describe('DynamicLayout', () => {
+  const sizes = [40, 100, 20, 60];
+
+  function prepared() {
+    const layout = new DynamicLayout();
+    const ctx = makeCtx(sizes.length, sizes);
+    layout.prepare(ctx);
+    return { layout, ctx };
+  }
+
+  it('按各项尺寸累加起点', () => {
+    const { layout, ctx } = prepared();
+    expect(sizes.map((_, i) => layout.getItemRect(ctx, i).start)).toEqual([0, 50, 160, 190]);
+    expect(layout.getContentSize(ctx)).toBe(250);
+    expect(layout.getScrollOffset(ctx, 2)).toBe(160);
+  });
+
+  it('二分查找与区间相交的项', () => {
+    const { layout, ctx } = prepared();
+    expect(layout.getIndexRange(ctx, 0, 50)).toEqual({ start: 0, end: 0 });
+    expect(layout.getIndexRange(ctx, 45, 170)).toEqual({ start: 0, end: 2 });
+    expect(layout.getIndexRange(ctx, 160, 1000)).toEqual({ start: 2, end: 3 });
+  });
+
+  it('尺寸变化后重新 prepare 生效', () => {
+    const current = sizes.slice();
+    const layout = new DynamicLayout();
+    const ctx = makeCtx(current.length, current);
+    layout.prepare(ctx);
+    current[0] = 90;
+    layout.prepare(ctx);
+    expect(layout.getItemRect(ctx, 1).start).toBe(100);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { moveIndex, moveIndexSet } from '../assets/vscrollview/VScrollViewCore';
+
+/** 按 moveIndex 的定义实际移动数组，作为对照 */
+function moveArray<T>(items: T[], from: number, to: number): T[] {
+  const result = items.slice();
+  result.splice(to, 0, result.splice(from, 1)[0]);
+  return result;
+}
+
+describe('moveIndex', () => {
+  it('被移动的项到达目标位置', () => {
+    expect(moveIndex(1, 1, 4)).toBe(4);
+    expect(moveIndex(4, 4, 1)).toBe(1);
+  });
+
+  it('与实际移动数组后的位置一致', () => {
+    const items = [0, 1, 2, 3, 4, 5];
+    for (let from = 0; from < items.length; from++) {
+      for (let to = 0; to < items.length; to++) {
+        const moved = moveArray(items, from, to);
+        for (const item of items) expect(moved[moveIndex(item, from, to)]).toBe(item);
+      }
+    }
+  });
+
+  it('移动范围外的索引不变', () => {
+    expect(moveIndex(0, 2, 4)).toBe(0);
+    expect(moveIndex(5, 2, 4)).toBe(5);
+  });
+});
+
+describe('moveIndexSet', () => {
+  it('集合中的索引随移动迁移', () => {
+    const result = moveIndexSet(new Set([0, 2, 3]), 0, 3);
+    expect(Array.from(result).sort((a, b) => a - b)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { resolveStateAnchor } from '../assets/vscrollview/VScrollViewCore';
+
+const size100 = () => 100;
+
+describe('resolveStateAnchor', () => {
+  it('没有 key 时按索引和项内偏移恢复', () => {
+    expect(resolveStateAnchor({ index: 3, offset: 40 }, null, 10, size100)).toEqual({ index: 3, offset: 40, cycle: 0 });
+  });
+
+  it('有 key 时优先按 key 查找数据项，找不到时退回保存的索引', () => {
+    const keys = ['a', 'b', 'c', 'd'];
+    expect(resolveStateAnchor({ index: 0, key: 'c', offset: 10 }, keys, 4, size100).index).toBe(2);
+    expect(resolveStateAnchor({ index: 1, key: 'x', offset: 10 }, keys, 4, size100).index).toBe(1);
+  });
+
+  it('数据变少时索引限制在范围内', () => {
+    expect(resolveStateAnchor({ index: 20, offset: 0 }, null, 5, size100).index).toBe(4);
+    expect(resolveStateAnchor({ index: 3, offset: 0 }, null, 0, size100).index).toBe(0);
+  });
+
+  it('项变小时偏移不超出该项', () => {
+    const sizes = [100, 30, 100];
+    const anchor = resolveStateAnchor({ index: 1, offset: 80 }, null, 3, i => sizes[i]);
+    expect(anchor.offset).toBe(30);
+    expect(resolveStateAnchor({ index: 1, offset: -5 }, null, 3, i => sizes[i]).offset).toBe(0);
+  });
+
+  it('保留循环模式的轮次', () => {
+    expect(resolveStateAnchor({ index: 2, offset: 0, cycle: -3 }, null, 10, size100).cycle).toBe(-3);
+  });
+});
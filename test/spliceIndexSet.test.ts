@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { insertFill, spliceIndexSet } from '../assets/vscrollview/VScrollViewCore';
+
+const sorted = (set: Set<number>) => Array.from(set).sort((a, b) => a - b);
+
+describe('spliceIndexSet', () => {
+  it('插入时其后的索引后移，之前的不变', () => {
+    expect(sorted(spliceIndexSet(new Set([0, 2, 5]), 2, 0, 3))).toEqual([0, 5, 8]);
+  });
+
+  it('删除时丢弃被删除的索引，其后的前移', () => {
+    expect(sorted(spliceIndexSet(new Set([0, 2, 3, 5]), 2, 2, 0))).toEqual([0, 3]);
+  });
+
+  it('同时删除和插入时按净变化迁移', () => {
+    expect(sorted(spliceIndexSet(new Set([1, 4, 6]), 2, 3, 1))).toEqual([1, 4]);
+  });
+
+  it('不修改传入的集合', () => {
+    const set = new Set([1, 2]);
+    spliceIndexSet(set, 0, 1, 0);
+    expect(sorted(set)).toEqual([1, 2]);
+  });
+});
+
+describe('insertFill', () => {
+  it('在中间、开头和末尾插入', () => {
+    const items = [1, 2, 3];
+    insertFill(items, 1, 2, 0);
+    expect(items).toEqual([1, 0, 0, 2, 3]);
+    insertFill(items, 0, 1, 9);
+    insertFill(items, items.length, 1, 7);
+    expect(items).toEqual([9, 1, 0, 0, 2, 3, 7]);
+  });
+
+  it('大量插入不会超出调用栈', () => {
+    const items = [1, 2];
+    insertFill(items, 1, 500000, 0);
+    expect(items.length).toBe(500002);
+    expect(items[items.length - 1]).toBe(2);
+  });
+});